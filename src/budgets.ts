@@ -0,0 +1,181 @@
+import { join } from "path";
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import { getSettingsTimezone, type Settings } from "./config";
+import { listRunsSince, type RunRecord } from "./run-history";
+import { resolveOffsetMinutesAt, shiftDateToOffset, type TimezoneSpec } from "./timezone";
+import { formatCost, formatTokens, startOfDaysAgo } from "./usage";
+
+const HEARTBEAT_DIR = join(process.cwd(), ".claude", "claudeclaw");
+const ALERTS_FILE = join(HEARTBEAT_DIR, "budget-alerts.json");
+const ALERT_THRESHOLDS = [0.8, 1];
+
+export type BudgetPeriod = "daily" | "monthly";
+
+/**
+ * What happens once a budget is used up: `refuse` every run it covers,
+ * `downgrade` them to a cheaper `model`, or `user-only`: refuse scheduled runs
+ * but still answer messages from the user.
+ */
+export type BudgetPolicy = "refuse" | "downgrade" | "user-only";
+
+/** A cap on cost and/or tokens per day or calendar month, over everything or one job or session group. */
+export interface BudgetConfig {
+  period: BudgetPeriod;
+  /** Only this job's runs (by job or run name, e.g. `heartbeat-inbox`). */
+  job?: string;
+  /** Only runs in this session group. */
+  sessionGroup?: string;
+  maxCostUsd?: number;
+  /** Input plus output tokens; cache reads and writes only count through the cost. */
+  maxTokens?: number;
+  policy: BudgetPolicy;
+  /** The model runs are downgraded to under `downgrade`. */
+  model?: string;
+}
+
+export interface BudgetStatus {
+  budget: BudgetConfig;
+  /** e.g. `daily budget for job news`. */
+  label: string;
+  /** Identifies the current day or month, e.g. `2026-10-19` or `2026-10`. */
+  periodKey: string;
+  costUsd: number;
+  tokens: number;
+  /** The larger of cost and tokens as a fraction of their caps. */
+  used: number;
+}
+
+export type BudgetDecision =
+  | { action: "allow" }
+  | { action: "refuse"; reason: string }
+  | { action: "downgrade"; model: string; reason: string };
+
+/** Local start of the current budget period, and its key. */
+function currentPeriod(period: BudgetPeriod, timezone: TimezoneSpec, now: number): { start: number; key: string } {
+  const local = shiftDateToOffset(new Date(now), resolveOffsetMinutesAt(timezone, new Date(now)));
+  const day = local.toISOString().slice(0, 10);
+  if (period === "daily") return { start: startOfDaysAgo(1, timezone, now), key: day };
+  const monthStart = Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), 1);
+  return { start: monthStart - resolveOffsetMinutesAt(timezone, new Date(monthStart)) * 60_000, key: day.slice(0, 7) };
+}
+
+function describeBudget(budget: BudgetConfig): string {
+  const scope = budget.job ? ` for job ${budget.job}` : budget.sessionGroup ? ` for group ${budget.sessionGroup}` : "";
+  return `${budget.period} budget${scope}`;
+}
+
+/** Identifies a budget across edits that don't change it: scope, period, caps and policy. */
+function budgetId(budget: BudgetConfig): string {
+  const scope = budget.job ? `job:${budget.job}` : budget.sessionGroup ? `group:${budget.sessionGroup}` : "all";
+  return [budget.period, scope, budget.maxCostUsd ?? "-", budget.maxTokens ?? "-", budget.policy].join("|");
+}
+
+function covers(budget: BudgetConfig, job: string, group: string): boolean {
+  if (budget.job) return budget.job === job;
+  if (budget.sessionGroup) return budget.sessionGroup === group;
+  return true;
+}
+
+function measure(budget: BudgetConfig, records: RunRecord[], timezone: TimezoneSpec, now: number): BudgetStatus {
+  const period = currentPeriod(budget.period, timezone, now);
+  let costUsd = 0;
+  let tokens = 0;
+  for (const record of records) {
+    if (!record.usage || record.startedAt < period.start || !covers(budget, record.job, record.group)) continue;
+    costUsd += record.usage.costUsd;
+    tokens += record.usage.inputTokens + record.usage.outputTokens;
+  }
+  const used = Math.max(
+    budget.maxCostUsd ? costUsd / budget.maxCostUsd : 0,
+    budget.maxTokens ? tokens / budget.maxTokens : 0
+  );
+  return { budget, label: describeBudget(budget), periodKey: period.key, costUsd, tokens, used };
+}
+
+/** How far into each configured budget the current day or month is. */
+export async function getBudgetStatuses(settings: Settings, now = Date.now()): Promise<BudgetStatus[]> {
+  if (settings.budgets.length === 0) return [];
+  const timezone = getSettingsTimezone(settings);
+  // A month is the longest period; one read of history covers every budget.
+  const earliest = Math.min(...settings.budgets.map((b) => currentPeriod(b.period, timezone, now).start));
+  const records = await listRunsSince(earliest);
+  return settings.budgets.map((budget) => measure(budget, records, timezone, now));
+}
+
+/** `$4.12 of $5.00` and/or `812.0k of 1.0M tokens`. */
+export function formatBudgetUse(status: BudgetStatus): string {
+  const parts: string[] = [];
+  if (status.budget.maxCostUsd) parts.push(`${formatCost(status.costUsd)} of ${formatCost(status.budget.maxCostUsd)}`);
+  if (status.budget.maxTokens) parts.push(`${formatTokens(status.tokens)} of ${formatTokens(status.budget.maxTokens)} tokens`);
+  return parts.join(", ");
+}
+
+/**
+ * Whether a run may start under the budgets that cover it. Of several used-up
+ * budgets the strictest wins: refuse, then user-only (which lets user
+ * messages through), then downgrade.
+ */
+export async function checkBudgets(
+  settings: Settings,
+  run: { job: string; group: string; userMessage?: boolean }
+): Promise<BudgetDecision> {
+  const exhausted = (await getBudgetStatuses(settings)).filter((s) => s.used >= 1 && covers(s.budget, run.job, run.group));
+  const reason = (s: BudgetStatus) => `${s.label} used up (${formatBudgetUse(s)})`;
+
+  const refused = exhausted.find((s) => s.budget.policy === "refuse")
+    ?? (run.userMessage ? undefined : exhausted.find((s) => s.budget.policy === "user-only"));
+  if (refused) return { action: "refuse", reason: reason(refused) };
+
+  const downgrade = exhausted.find((s) => s.budget.policy === "downgrade" && s.budget.model);
+  if (downgrade) return { action: "downgrade", model: downgrade.budget.model!, reason: reason(downgrade) };
+  return { action: "allow" };
+}
+
+function policyNote(budget: BudgetConfig): string {
+  if (budget.policy === "downgrade") return `runs now use ${budget.model}`;
+  if (budget.policy === "user-only") return "scheduled runs are refused, messages still answered";
+  return "runs are refused";
+}
+
+/**
+ * Alert texts for budgets that crossed 80% or 100% since the last check, once
+ * per budget, threshold and period. What was already sent is kept on disk so
+ * a restart doesn't repeat it, keyed by what the budget is rather than its
+ * place in `budgets`, so reordering settings doesn't repeat it either.
+ */
+export async function checkBudgetAlerts(settings: Settings): Promise<string[]> {
+  const statuses = await getBudgetStatuses(settings);
+  if (statuses.length === 0) return [];
+
+  let sent: string[] = [];
+  try {
+    sent = JSON.parse(await readFile(ALERTS_FILE, "utf8")).sent ?? [];
+  } catch {
+    // No alerts sent yet.
+  }
+
+  const current = new Set<string>();
+  const alerts: string[] = [];
+  for (const status of statuses) {
+    const crossed = ALERT_THRESHOLDS.filter((threshold) => status.used >= threshold);
+    if (crossed.length === 0) continue;
+    const keys = crossed.map((threshold) => `${budgetId(status.budget)}|${status.periodKey}|${threshold}`);
+    // Only the highest threshold crossed is announced; a jump straight past 100% sends one alert.
+    const announced = sent.includes(keys[keys.length - 1]) || current.has(keys[keys.length - 1]);
+    for (const key of keys) current.add(key);
+    if (announced) continue;
+    const threshold = crossed[crossed.length - 1];
+    alerts.push(threshold >= 1
+      ? `🛑 ${status.label} reached: ${formatBudgetUse(status)}; ${policyNote(status.budget)}.`
+      : `⚠️ ${status.label} ${Math.round(threshold * 100)}% used: ${formatBudgetUse(status)}.`);
+  }
+
+  // Keys of past periods drop out here, so the file never grows.
+  if (alerts.length > 0 || current.size !== sent.length) {
+    await mkdir(HEARTBEAT_DIR, { recursive: true });
+    const tmp = ALERTS_FILE + ".tmp";
+    await writeFile(tmp, JSON.stringify({ sent: [...current] }, null, 2) + "\n", "utf8");
+    await rename(tmp, ALERTS_FILE);
+  }
+  return alerts;
+}
@@ -0,0 +1,150 @@
+import { join } from "path";
+import { initConfig, loadSettings } from "../config";
+import { diagnoseJobs, formatJobDiagnostics } from "../job-diagnostics";
+import { getJobTimezone, loadJobs, parsePauseUntil, pauseJob, resumeJob, type Job } from "../jobs";
+import { runJobNowReport, type RunNowReport } from "../job-runner";
+import { requestDaemon } from "../control";
+import { formatLocalDateTimeValue, type LocalDateTime } from "../schedule";
+import { checkExistingDaemon } from "../pid";
+import type { StateData } from "../statusline";
+
+const STATE_FILE = join(process.cwd(), ".claude", "claudeclaw", "state.json");
+
+const USAGE = `Usage:
+  claudeclaw jobs run <name>
+  claudeclaw jobs pause <name> [until]   until: a duration (2h, 3d) or date/time (2026-11-03T09:30)
+  claudeclaw jobs resume <name>
+  claudeclaw jobs validate [--json]       check every job file; exits 1 if any is rejected`;
+
+async function findJob(name: string): Promise<Job> {
+  const jobs = await loadJobs();
+  const job = jobs.find((j) => j.name === name);
+  if (!job) {
+    console.error(`Unknown job "${name}".${jobs.length > 0 ? ` Jobs: ${jobs.map((j) => j.name).join(", ")}` : ""}`);
+    process.exit(1);
+  }
+  return job;
+}
+
+/** POST to the daemon's web API, for a daemon whose control socket can't be reached. */
+async function requestWebUi(path: string): Promise<Response | null> {
+  let web: StateData["web"];
+  try {
+    web = ((await Bun.file(STATE_FILE).json()) as StateData).web;
+  } catch {
+    // No state yet; treated as no web UI.
+  }
+  if (!web?.enabled) return null;
+  const host = web.host === "0.0.0.0" || web.host === "::" ? "127.0.0.1" : web.host;
+  return fetch(`http://${host}:${web.port}/api${path}?wait=1`, { method: "POST" });
+}
+
+/**
+ * Hand a job to the running daemon and wait for its result, so the run goes
+ * through the daemon's concurrency policy and session-group queue like any
+ * other. The control socket is tried first, then the web API.
+ */
+async function runInDaemon(name: string, pid: number): Promise<RunNowReport> {
+  const path = `/jobs/${encodeURIComponent(name)}/run`;
+  let res: Response | null;
+  try {
+    res = await requestDaemon(path, { method: "POST" });
+  } catch {
+    res = await requestWebUi(path).catch(() => null);
+  }
+  if (!res) {
+    console.error(`Could not reach the daemon (PID ${pid}) to run ${name}: no control socket and no web UI. Restart the daemon.`);
+    process.exit(1);
+  }
+  const body = (await res.json().catch(() => ({ ok: false }))) as { ok: boolean; error?: string } & RunNowReport;
+  if (!body.ok) {
+    console.error(`Could not run ${name} in the daemon (PID ${pid}): ${body.error ?? `HTTP ${res.status}`}`);
+    process.exit(1);
+  }
+  return body;
+}
+
+async function runNow(name: string | undefined) {
+  if (!name) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  await initConfig();
+  await loadSettings();
+  const job = await findJob(name);
+
+  const pid = await checkExistingDaemon();
+  console.log(pid ? `Running ${job.name} in the daemon (PID ${pid})...` : `Running ${job.name}...`);
+  const report = pid ? await runInDaemon(job.name, pid) : await runJobNowReport(job);
+  console.log(report.text);
+  if (report.exitCode !== 0) process.exit(report.exitCode || 1);
+}
+
+async function pause(name: string | undefined, rawUntil: string | undefined) {
+  if (!name) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  await initConfig();
+  const settings = await loadSettings();
+  const job = await findJob(name);
+
+  let until: LocalDateTime | undefined;
+  if (rawUntil) {
+    until = parsePauseUntil(rawUntil, getJobTimezone(job, settings)) ?? undefined;
+    if (!until) {
+      console.error(`Invalid until "${rawUntil}": expected a future date/time or a duration like 2h.`);
+      process.exit(1);
+    }
+  }
+
+  await pauseJob(job.name, until);
+  console.log(until ? `Paused ${job.name} until ${formatLocalDateTimeValue(until)}.` : `Paused ${job.name}.`);
+}
+
+async function resume(name: string | undefined) {
+  if (!name) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  await initConfig();
+  const job = await findJob(name);
+  if (job.enabled && !job.pausedUntil) {
+    console.log(`${job.name} is not paused.`);
+    return;
+  }
+
+  await resumeJob(job.name);
+  console.log(`Resumed ${job.name}.`);
+}
+
+async function validate(flags: string[]) {
+  await initConfig();
+  const settings = await loadSettings();
+  const diagnostics = await diagnoseJobs(settings);
+
+  if (flags.includes("--json")) {
+    console.log(JSON.stringify(diagnostics, null, 2));
+  } else if (diagnostics.files.length === 0) {
+    console.log("No job files.");
+  } else {
+    formatJobDiagnostics(diagnostics, true).forEach((line) => console.log(line));
+    console.log("");
+    console.log(`${diagnostics.loaded} loaded, ${diagnostics.rejected} rejected, ${diagnostics.inert} inert`);
+  }
+  if (diagnostics.rejected > 0) process.exit(1);
+}
+
+export async function jobs(args: string[]) {
+  const [sub, ...rest] = args;
+  if (sub === "run") return runNow(rest[0]);
+  if (sub === "pause") return pause(rest[0], rest[1]);
+  if (sub === "resume") return resume(rest[0]);
+  if (sub === "validate") return validate(rest);
+
+  console.error(USAGE);
+  process.exit(1);
+}
@@ -21,6 +21,10 @@ export async function send(args: string[]) {
   }
 
   const result = await runUserMessage("send", message);
+  if (result.skipped) {
+    console.error(`Not run: ${result.skipped}`);
+    process.exit(1);
+  }
   console.log(result.stdout);
 
   if (telegramFlag) {
@@ -1,14 +1,25 @@
 import { writeFile, unlink, mkdir } from "fs/promises";
 import { join } from "path";
 import { fileURLToPath } from "url";
-import { run, runUserMessage, bootstrap, ensureProjectClaudeMd, loadHeartbeatPromptTemplate, type RunOptions } from "../runner";
+import { cancelAllRuns, recordFailedRun, run, runUserMessage, bootstrap, ensureProjectClaudeMd, loadHeartbeatPromptTemplate, type RunResult } from "../runner";
 import { writeState, type StateData } from "../statusline";
-import { cronMatches, nextCronMatch } from "../cron";
-import { clearJobSchedule, loadJobs } from "../jobs";
+import { formatSchedule, isExcludedAt, nextRunAfter, runsBetween } from "../schedule";
+import { clearJobSchedule, getJobFileModifiedAt, getJobTimezone, inspectJobs, isJobPaused, resumeJob, type JobFileReport } from "../jobs";
+import { executeJob, formatRunResult, onJobFinished, runWithConcurrency } from "../job-runner";
+import { createChainTracker } from "../job-graph";
+import { getLastFiredAt, getLastTickAt, pruneLedger, recordJobFired, recordTick } from "../schedule-ledger";
+import { startScheduler, type SchedulerHandle } from "../scheduler";
 import { writePidFile, cleanupPidFile, checkExistingDaemon } from "../pid";
-import { initConfig, loadSettings, reloadSettings, resolvePrompt, type HeartbeatConfig, type Settings } from "../config";
-import { getDayAndMinuteAtOffset } from "../timezone";
+import { getSettingsTimezone, initConfig, listHeartbeats, loadSettings, reloadSettings, resolvePrompt, type HeartbeatConfig, type NamedHeartbeatConfig, type Settings } from "../config";
+import type { TimezoneSpec } from "../timezone";
+import { isInExcludeWindow } from "../exclusions";
 import { startWebUi, type WebServerHandle } from "../web";
+import { startControlServer, type ControlServerHandle } from "../control";
+import { renderTemplate } from "../template";
+import { onRunEvent } from "../run-events";
+import { classifyHeartbeatResult, heartbeatRunName } from "../heartbeat";
+import { checkBudgetAlerts } from "../budgets";
+import { getLastOutput } from "../run-history";
 import type { Job } from "../jobs";
 
 const CLAUDE_DIR = join(process.cwd(), ".claude");
@@ -76,9 +87,13 @@ try {
   if (state.heartbeat) {
     info.push("\\ud83d\\udc93 " + fmt(state.heartbeat.nextAt - now));
   }
+  (state.heartbeats || []).forEach(function (hb) {
+    info.push("\\ud83d\\udc93 " + hb.name + " " + fmt(hb.nextAt - now));
+  });
 
   var jc = (state.jobs || []).length;
-  info.push("\\ud83d\\udccb " + jc + " job" + (jc !== 1 ? "s" : ""));
+  var pc = (state.jobs || []).filter(function (j) { return j.paused; }).length;
+  info.push("\\ud83d\\udccb " + jc + " job" + (jc !== 1 ? "s" : "") + (pc > 0 ? DIM + " (" + pc + " paused)" + R : ""));
   info.push(GREEN + "\\u25cf live" + R);
 
   if (state.telegram) {
@@ -97,50 +112,18 @@ try {
 }
 `;
 
-const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+// Upper bound on replays for `catch_up: all`, so an every-minute job doesn't flood the queue.
+const MAX_CATCH_UP_RUNS = 50;
 
-function parseClockMinutes(value: string): number | null {
-  const match = value.match(/^([01]\d|2[0-3]):([0-5]\d)$/);
-  if (!match) return null;
-  return Number(match[1]) * 60 + Number(match[2]);
-}
+type JobTrigger = "schedule" | "catch-up" | "chain";
 
-function isHeartbeatExcludedNow(config: HeartbeatConfig, timezoneOffsetMinutes: number): boolean {
-  return isHeartbeatExcludedAt(config, timezoneOffsetMinutes, new Date());
-}
-
-function isHeartbeatExcludedAt(config: HeartbeatConfig, timezoneOffsetMinutes: number, at: Date): boolean {
-  if (!Array.isArray(config.excludeWindows) || config.excludeWindows.length === 0) return false;
-  const local = getDayAndMinuteAtOffset(at, timezoneOffsetMinutes);
-
-  for (const window of config.excludeWindows) {
-    const start = parseClockMinutes(window.start);
-    const end = parseClockMinutes(window.end);
-    if (start == null || end == null) continue;
-    const days = Array.isArray(window.days) && window.days.length > 0 ? window.days : ALL_DAYS;
-    const sameDay = start < end;
-
-    if (sameDay) {
-      if (days.includes(local.day) && local.minute >= start && local.minute < end) return true;
-      continue;
-    }
-
-    if (start === end) {
-      if (days.includes(local.day)) return true;
-      continue;
-    }
-
-    if (local.minute >= start && days.includes(local.day)) return true;
-    const previousDay = (local.day + 6) % 7;
-    if (local.minute < end && days.includes(previousDay)) return true;
-  }
-
-  return false;
+function isHeartbeatExcludedNow(config: HeartbeatConfig, timezone: TimezoneSpec): boolean {
+  return isInExcludeWindow(config.excludeWindows, timezone, new Date());
 }
 
 function nextAllowedHeartbeatAt(
   config: HeartbeatConfig,
-  timezoneOffsetMinutes: number,
+  timezone: TimezoneSpec,
   intervalMs: number,
   fromMs: number
 ): number {
@@ -148,7 +131,7 @@ function nextAllowedHeartbeatAt(
   let candidate = fromMs + interval;
   let guard = 0;
 
-  while (isHeartbeatExcludedAt(config, timezoneOffsetMinutes, new Date(candidate)) && guard < 20_000) {
+  while (isInExcludeWindow(config.excludeWindows, timezone, new Date(candidate)) && guard < 20_000) {
     candidate += interval;
     guard++;
   }
@@ -156,6 +139,15 @@ function nextAllowedHeartbeatAt(
   return candidate;
 }
 
+/** `every 15m, inbox every 15m (haiku)`, for the startup and reload logs. */
+function describeHeartbeats(settings: Settings): string {
+  const enabled = listHeartbeats(settings).filter((hb) => hb.enabled);
+  if (enabled.length === 0) return "disabled";
+  return enabled
+    .map((hb) => `${hb.name === "heartbeat" ? "" : `${hb.name} `}every ${hb.interval}m${hb.model ? ` (${hb.model})` : ""}`)
+    .join(", ");
+}
+
 async function setupStatusline() {
   await mkdir(CLAUDE_DIR, { recursive: true });
   await writeFile(STATUSLINE_FILE, STATUSLINE_SCRIPT);
@@ -263,6 +255,10 @@ export async function start(args: string[] = []) {
     await loadSettings();
     await ensureProjectClaudeMd();
     const result = await runUserMessage("prompt", payload);
+    if (result.skipped) {
+      console.error(`Not run: ${result.skipped}`);
+      process.exit(1);
+    }
     console.log(result.stdout);
     if (result.exitCode !== 0) process.exit(result.exitCode);
     return;
@@ -299,16 +295,41 @@ export async function start(args: string[] = []) {
   await initConfig();
   const settings = await loadSettings();
   await ensureProjectClaudeMd();
-  const jobs = await loadJobs();
+
+  // Reports from the last job load; rejected files are logged whenever that list changes.
+  let jobFiles: JobFileReport[] = [];
+  async function reloadJobs(): Promise<Job[]> {
+    const { jobs, reports } = await inspectJobs();
+    const rejected = (list: JobFileReport[]) => list.filter((r) => r.status === "rejected").map((r) => `${r.file}: ${r.error}`);
+    const before = rejected(jobFiles);
+    const after = rejected(reports);
+    jobFiles = reports;
+    if (after.join("\n") !== before.join("\n")) {
+      if (after.length > 0) {
+        console.error(`[${ts()}] Rejected job file(s): ${after.length}`);
+        after.forEach((line) => console.error(`    - ${line}`));
+      } else {
+        console.log(`[${ts()}] All job files valid again`);
+      }
+    }
+    return jobs;
+  }
+
+  const jobs = await reloadJobs();
   const webEnabled = webFlag || webPortFlag !== null || settings.web.enabled;
   const webPort = webPortFlag ?? settings.web.port;
 
   await setupStatusline();
   await writePidFile();
   let web: WebServerHandle | null = null;
+  let control: ControlServerHandle | null = null;
+  let scheduler: SchedulerHandle | null = null;
 
   async function shutdown() {
     if (web) web.stop();
+    if (control) await control.stop();
+    if (scheduler) scheduler.stop();
+    cancelAllRuns();
     await teardownStatusline();
     await cleanupPidFile();
     process.exit(0);
@@ -323,17 +344,16 @@ export async function start(args: string[] = []) {
     console.log(`    + allowed: ${settings.security.allowedTools.join(", ")}`);
   if (settings.security.disallowedTools.length > 0)
     console.log(`    - blocked: ${settings.security.disallowedTools.join(", ")}`);
-  console.log(`  Heartbeat: ${settings.heartbeat.enabled ? `every ${settings.heartbeat.interval}m` : "disabled"}`);
+  console.log(`  Heartbeat: ${describeHeartbeats(settings)}`);
   console.log(`  Web UI: ${webEnabled ? `http://${settings.web.host}:${webPort}` : "disabled"}`);
   if (debugFlag) console.log("  Debug: enabled");
   console.log(`  Jobs loaded: ${jobs.length}`);
-  jobs.forEach((j) => console.log(`    - ${j.name} [${j.schedule}]`));
+  jobs.forEach((j) => console.log(`    - ${j.name} [${formatSchedule(j)}]${j.timezone ? ` (${j.timezone})` : ""}`));
 
   // --- Mutable state ---
   let currentSettings: Settings = settings;
   let currentJobs: Job[] = jobs;
-  let nextHeartbeatAt = 0;
-  let heartbeatTimer: ReturnType<typeof setTimeout> | null = null;
+  const heartbeatTimers = new Map<string, { config: NamedHeartbeatConfig; timer: ReturnType<typeof setTimeout>; nextAt: number }>();
   const daemonStartedAt = Date.now();
 
   // --- Telegram ---
@@ -376,14 +396,15 @@ export async function start(args: string[] = []) {
           getSnapshot: () => ({
             pid: process.pid,
             startedAt: daemonStartedAt,
-            heartbeatNextAt: nextHeartbeatAt,
+            heartbeatNextAt: Object.fromEntries([...heartbeatTimers].map(([name, entry]) => [name, entry.nextAt])),
             settings: currentSettings,
             jobs: currentJobs,
+            jobFiles,
           }),
           onHeartbeatEnabledChanged: (enabled) => {
             if (currentSettings.heartbeat.enabled === enabled) return;
             currentSettings.heartbeat.enabled = enabled;
-            scheduleHeartbeat();
+            scheduleHeartbeats();
             updateState();
             console.log(`[${ts()}] Heartbeat ${enabled ? "enabled" : "disabled"} from Web UI`);
           },
@@ -413,13 +434,13 @@ export async function start(args: string[] = []) {
             }
           }
           if (!changed) return;
-          scheduleHeartbeat();
+          scheduleHeartbeats();
           updateState();
             console.log(`[${ts()}] Heartbeat settings updated from Web UI`);
           },
           onJobsChanged: async () => {
-            currentJobs = await loadJobs();
-            scheduleHeartbeat();
+            currentJobs = await reloadJobs();
+            scheduleHeartbeats();
             updateState();
             console.log(`[${ts()}] Jobs reloaded from Web UI`);
           },
@@ -433,6 +454,12 @@ export async function start(args: string[] = []) {
     throw lastError;
   }
 
+  try {
+    control = startControlServer({ getJobs: () => currentJobs });
+  } catch (err) {
+    console.error(`[${ts()}] Control socket unavailable; \`claudeclaw jobs run\` needs the web UI: ${err instanceof Error ? err.message : err}`);
+  }
+
   if (webEnabled) {
     currentSettings.web.enabled = true;
     web = startWebWithFallback(currentSettings.web.host, webPort);
@@ -457,11 +484,12 @@ export async function start(args: string[] = []) {
     }
   }
 
-  function forwardToTelegram(label: string, result: { exitCode: number; stdout: string; stderr: string }) {
+  function forwardToTelegram(label: string, result: RunResult) {
+    forwardTextToTelegram(formatRunResult(label, result));
+  }
+
+  function forwardTextToTelegram(text: string) {
     if (!telegramSend || currentSettings.telegram.allowedUserIds.length === 0) return;
-    const text = result.exitCode === 0
-      ? `${label ? `[${label}]\n` : ""}${result.stdout || "(empty)"}`
-      : `${label ? `[${label}] ` : ""}error (exit ${result.exitCode}): ${result.stderr || "Unknown"}`;
     for (const userId of currentSettings.telegram.allowedUserIds) {
       telegramSend(userId, text).catch((err) =>
         console.error(`[Telegram] Failed to forward to ${userId}: ${err}`)
@@ -470,36 +498,60 @@ export async function start(args: string[] = []) {
   }
 
   // --- Heartbeat scheduling ---
-  function scheduleHeartbeat() {
-    if (heartbeatTimer) clearTimeout(heartbeatTimer);
-    heartbeatTimer = null;
+  // Each heartbeat runs on its own timer; one is only rescheduled when its own config changes.
+  function scheduleHeartbeats(force = false) {
+    const wanted = listHeartbeats(currentSettings).filter((hb) => hb.enabled);
+    for (const [name, entry] of heartbeatTimers) {
+      if (wanted.some((hb) => hb.name === name)) continue;
+      clearTimeout(entry.timer);
+      heartbeatTimers.delete(name);
+    }
+    for (const hb of wanted) {
+      const existing = heartbeatTimers.get(hb.name);
+      if (!force && existing && JSON.stringify(existing.config) === JSON.stringify(hb)) continue;
+      scheduleHeartbeat(hb);
+    }
+  }
 
-    if (!currentSettings.heartbeat.enabled) {
-      nextHeartbeatAt = 0;
+  function forwardHeartbeat(hb: NamedHeartbeatConfig, text: string) {
+    if (hb.notify === "none") return;
+    if (hb.notify === "telegram") {
+      forwardTextToTelegram(text);
       return;
     }
+    if (!telegramSend) return;
+    for (const chatId of hb.notify) {
+      telegramSend(chatId, text).catch((err) =>
+        console.error(`[Telegram] Failed to forward to ${chatId}: ${err}`)
+      );
+    }
+  }
 
-    const ms = currentSettings.heartbeat.interval * 60_000;
-    nextHeartbeatAt = nextAllowedHeartbeatAt(
-      currentSettings.heartbeat,
-      currentSettings.timezoneOffsetMinutes,
-      ms,
-      Date.now()
-    );
+  function scheduleHeartbeat(hb: NamedHeartbeatConfig) {
+    const previous = heartbeatTimers.get(hb.name);
+    if (previous) clearTimeout(previous.timer);
+
+    const ms = hb.interval * 60_000;
+    const runName = heartbeatRunName(hb.name);
+    const label = hb.name === "heartbeat" ? "Heartbeat" : `Heartbeat ${hb.name}`;
+    const group = hb.sessionGroup ?? "default";
 
     function tick() {
-      if (isHeartbeatExcludedNow(currentSettings.heartbeat, currentSettings.timezoneOffsetMinutes)) {
-        console.log(`[${ts()}] Heartbeat skipped (excluded window)`);
-        nextHeartbeatAt = nextAllowedHeartbeatAt(
-          currentSettings.heartbeat,
-          currentSettings.timezoneOffsetMinutes,
-          ms,
-          Date.now()
-        );
+      if (isHeartbeatExcludedNow(hb, getSettingsTimezone(currentSettings))) {
+        console.log(`[${ts()}] ${label} skipped (excluded window)`);
+        entry.nextAt = nextAllowedHeartbeatAt(hb, getSettingsTimezone(currentSettings), ms, Date.now());
+        updateState();
         return;
       }
       Promise.all([
-        resolvePrompt(currentSettings.heartbeat.prompt),
+        resolvePrompt(hb.prompt).then((prompt) =>
+          renderTemplate(prompt, {
+            now: new Date(),
+            timezone: getSettingsTimezone(currentSettings),
+            job: { name: runName },
+            lastOutput: () => getLastOutput(runName),
+          })
+        ),
         loadHeartbeatPromptTemplate(),
       ])
         .then(([prompt, template]) => {
@@ -510,23 +562,42 @@ export async function start(args: string[] = []) {
             .filter((part) => part.length > 0)
             .join("\n\n");
           if (!mergedPrompt) return null;
-          return run("heartbeat", mergedPrompt);
+          return run(runName, mergedPrompt, {
+            ...(hb.sessionGroup ? { sessionGroup: hb.sessionGroup } : {}),
+            ...(hb.model ? { model: hb.model } : {}),
+            classify: (result) => classifyHeartbeatResult(result, hb.okReplies),
+          });
         })
         .then((r) => {
-          if (r) forwardToTelegram("", r);
+          if (!r || r.skipped) return;
+          if (r.classification?.suppressed) {
+            console.log(`[${ts()}] ${label}: nothing to report (${r.classification.outcome === "ok" ? "suppressed" : "cancelled"})`);
+            return;
+          }
+          const message = r.classification?.message;
+          const prefix = hb.name === "heartbeat" ? "" : hb.name;
+          forwardHeartbeat(hb, formatRunResult(prefix, message === undefined ? r : { ...r, stdout: message }));
+        })
+        .catch((err) => {
+          const message = err instanceof Error ? err.message : String(err);
+          console.error(`[${ts()}] ${label} not run: ${message}`);
+          recordFailedRun(runName, message, "schedule", group).catch(() => {});
         });
-      nextHeartbeatAt = nextAllowedHeartbeatAt(
-        currentSettings.heartbeat,
-        currentSettings.timezoneOffsetMinutes,
-        ms,
-        Date.now()
-      );
+      entry.nextAt = nextAllowedHeartbeatAt(hb, getSettingsTimezone(currentSettings), ms, Date.now());
+      updateState();
     }
 
-    heartbeatTimer = setTimeout(function runAndReschedule() {
+    function runAndReschedule() {
       tick();
-      heartbeatTimer = setTimeout(runAndReschedule, ms);
-    }, ms);
+      entry.timer = setTimeout(runAndReschedule, ms);
+    }
+
+    const entry = {
+      config: hb,
+      timer: setTimeout(runAndReschedule, ms),
+      nextAt: nextAllowedHeartbeatAt(hb, getSettingsTimezone(currentSettings), ms, Date.now()),
+    };
+    heartbeatTimers.set(hb.name, entry);
   }
 
   // Startup init:
@@ -549,22 +620,20 @@ export async function start(args: string[] = []) {
   // Install plugins without blocking daemon startup.
   startPreflightInBackground(process.cwd());
 
-  if (currentSettings.heartbeat.enabled) scheduleHeartbeat();
+  scheduleHeartbeats();
 
   // --- Hot-reload loop (every 30s) ---
   setInterval(async () => {
     try {
       const newSettings = await reloadSettings();
-      const newJobs = await loadJobs();
+      const newJobs = await reloadJobs();
 
-      // Detect heartbeat config changes
-      const hbChanged =
-        newSettings.heartbeat.enabled !== currentSettings.heartbeat.enabled ||
-        newSettings.heartbeat.interval !== currentSettings.heartbeat.interval ||
-        newSettings.heartbeat.prompt !== currentSettings.heartbeat.prompt ||
+      // Detect heartbeat config changes; a timezone change moves every heartbeat's exclude windows.
+      const tzChanged =
         newSettings.timezoneOffsetMinutes !== currentSettings.timezoneOffsetMinutes ||
-        newSettings.timezone !== currentSettings.timezone ||
-        JSON.stringify(newSettings.heartbeat.excludeWindows) !== JSON.stringify(currentSettings.heartbeat.excludeWindows);
+        newSettings.timezone !== currentSettings.timezone;
+      const hbChanged = tzChanged ||
+        JSON.stringify(listHeartbeats(newSettings)) !== JSON.stringify(listHeartbeats(currentSettings));
 
       // Detect security config changes
       const secChanged =
@@ -577,9 +646,9 @@ export async function start(args: string[] = []) {
       }
 
       if (hbChanged) {
-        console.log(`[${ts()}] Config change detected — heartbeat: ${newSettings.heartbeat.enabled ? `every ${newSettings.heartbeat.interval}m` : "disabled"}`);
+        console.log(`[${ts()}] Config change detected — heartbeats: ${describeHeartbeats(newSettings)}`);
         currentSettings = newSettings;
-        scheduleHeartbeat();
+        scheduleHeartbeats(tzChanged);
       } else {
         currentSettings = newSettings;
       }
@@ -589,11 +658,11 @@ export async function start(args: string[] = []) {
       }
 
       // Detect job changes
-      const jobNames = newJobs.map((j) => `${j.name}:${j.schedule}:${j.prompt}`).sort().join("|");
-      const oldJobNames = currentJobs.map((j) => `${j.name}:${j.schedule}:${j.prompt}`).sort().join("|");
+      const jobNames = newJobs.map((j) => `${j.name}:${formatSchedule(j)}:${j.prompt}`).sort().join("|");
+      const oldJobNames = currentJobs.map((j) => `${j.name}:${formatSchedule(j)}:${j.prompt}`).sort().join("|");
       if (jobNames !== oldJobNames) {
         console.log(`[${ts()}] Jobs reloaded: ${newJobs.length} job(s)`);
-        newJobs.forEach((j) => console.log(`    - ${j.name} [${j.schedule}]`));
+        newJobs.forEach((j) => console.log(`    - ${j.name} [${formatSchedule(j)}]${j.timezone ? ` (${j.timezone})` : ""}`));
       }
       currentJobs = newJobs;
 
@@ -604,17 +673,24 @@ export async function start(args: string[] = []) {
     }
   }, 30_000);
 
-  // --- Cron tick (every 60s) ---
+  // --- Cron scheduler (minute-aligned, see scheduler.ts) ---
   function updateState() {
     const now = new Date();
     const state: StateData = {
-      heartbeat: currentSettings.heartbeat.enabled
-        ? { nextAt: nextHeartbeatAt }
+      heartbeat: heartbeatTimers.has("heartbeat")
+        ? { nextAt: heartbeatTimers.get("heartbeat")!.nextAt }
         : undefined,
-      jobs: currentJobs.map((job) => ({
-        name: job.name,
-        nextAt: nextCronMatch(job.schedule, now, currentSettings.timezoneOffsetMinutes).getTime(),
-      })),
+      heartbeats: [...heartbeatTimers]
+        .filter(([name]) => name !== "heartbeat")
+        .map(([name, entry]) => ({ name, nextAt: entry.nextAt })),
+      jobs: currentJobs.map((job) => {
+        const timezone = getJobTimezone(job, currentSettings);
+        return {
+          name: job.name,
+          nextAt: nextRunAfter(job, now, timezone)?.getTime() ?? null,
+          ...(isJobPaused(job, timezone, now.getTime()) ? { paused: true } : {}),
+        };
+      }),
       security: currentSettings.security.level,
       telegram: !!currentSettings.telegram.token,
       startedAt: daemonStartedAt,
@@ -629,37 +705,145 @@ export async function start(args: string[] = []) {
 
   updateState();
 
-  setInterval(() => {
-    const now = new Date();
+  async function clearOneShotSchedule(job: Job) {
+    // `every` and `at` jobs expire through their own schedule and bounds.
+    if (job.recurring || job.schedule.kind !== "cron") return;
+    try {
+      await clearJobSchedule(job.name);
+      console.log(`[${ts()}] Cleared schedule for one-time job: ${job.name}`);
+    } catch (err) {
+      console.error(`[${ts()}] Failed to clear schedule for ${job.name}:`, err);
+    }
+  }
+
+  // `paused_until` has passed: the schedule already runs again, so drop the stale line.
+  async function clearExpiredPauses(at: number) {
     for (const job of currentJobs) {
-      if (cronMatches(job.schedule, now, currentSettings.timezoneOffsetMinutes)) {
-        const jobOptions: RunOptions = {};
-        if (job.sessionGroup) jobOptions.sessionGroup = job.sessionGroup;
-        if (job.model) jobOptions.model = job.model;
-        if (job.tools) jobOptions.tools = job.tools;
-        if (job.settingSources) jobOptions.settingSources = job.settingSources;
-        if (job.effort) jobOptions.effort = job.effort;
-        if (job.maxTurns) jobOptions.maxTurns = job.maxTurns;
-        if (!job.sessionGroup) jobOptions.noSessionPersistence = true;
-
-        resolvePrompt(job.prompt)
-          .then((prompt) => run(job.name, prompt, jobOptions))
-          .then((r) => {
-            if (job.notify === false) return;
-            if (job.notify === "error" && r.exitCode === 0) return;
-            forwardToTelegram(job.name, r);
-          })
-          .finally(async () => {
-            if (job.recurring) return;
-            try {
-              await clearJobSchedule(job.name);
-              console.log(`[${ts()}] Cleared schedule for one-time job: ${job.name}`);
-            } catch (err) {
-              console.error(`[${ts()}] Failed to clear schedule for ${job.name}:`, err);
-            }
-          });
+      if (!job.pausedUntil || isJobPaused(job, getJobTimezone(job, currentSettings), at)) continue;
+      currentJobs = currentJobs.map((j) => (j === job ? { ...j, pausedUntil: undefined } : j));
+      try {
+        await resumeJob(job.name);
+        console.log(`[${ts()}] Resumed ${job.name}: pause ended`);
+      } catch (err) {
+        console.error(`[${ts()}] Failed to resume ${job.name}:`, err);
       }
     }
-    updateState();
-  }, 60_000);
+  }
+
+  function notifyJobResult(job: Job, r: RunResult, signal: AbortSignal) {
+    if (job.notify === false || r.skipped) return;
+    // Superseded by a newer occurrence (`concurrency: replace`): nothing to report.
+    if (r.cancelled && signal.aborted) return;
+    if (job.type === "maintenance") {
+      // Only the triage summary of a failed maintenance command is worth a ping.
+      if (r.exitCode !== 0 && r.stderr) forwardTextToTelegram(`[${job.name}] maintenance failed (exit ${r.exitCode}):\n${r.stderr}`);
+      return;
+    }
+    if (job.notify === "error" && r.exitCode === 0) return;
+    forwardToTelegram(job.name, r);
+  }
+
+  function fireJob(job: Job, trigger: JobTrigger, upstreamOutputs?: Map<string, string>): Promise<void> {
+    return runWithConcurrency(job, trigger, (signal) =>
+      executeJob(job, trigger, signal, { upstreamOutputs })
+        .then((r) => notifyJobResult(job, r, signal))
+        .finally(() => trigger !== "chain" && clearOneShotSchedule(job))
+    )
+      .then(() => {})
+      .catch((err) => console.error(`[${ts()}] Job ${job.name} failed:`, err));
+  }
+
+  // --- Chains: a successful run starts the jobs waiting on it (`after:` / `on_success:`) ---
+  const chains = createChainTracker();
+  onJobFinished((job, r) => {
+    if (r.exitCode !== 0 || r.skipped || r.cancelled || r.timedOut) return;
+    for (const next of chains.recordSuccess(job.name, r.stdout, currentJobs)) {
+      const timezone = getJobTimezone(next.job, currentSettings);
+      const held = isJobPaused(next.job, timezone) ? "paused" : isExcludedAt(next.job, new Date(), timezone) ? "excluded" : null;
+      if (held) {
+        console.log(`[${ts()}] Skipped ${next.job.name} after ${job.name}: ${held}`);
+        continue;
+      }
+      console.log(`[${ts()}] Chain: ${job.name} → ${next.job.name}`);
+      fireJob(next.job, "chain", next.upstreamOutputs);
+    }
+  });
+
+  // Usage only changes when a Claude run ends; that's when a budget can cross 80% or 100%.
+  // Checks run one at a time so two runs ending together can't both send the same alert.
+  let budgetCheck: Promise<unknown> = Promise.resolve();
+  onRunEvent((event) => {
+    if (event.type !== "end") return;
+    budgetCheck = budgetCheck
+      .then(() => checkBudgetAlerts(currentSettings))
+      .then((alerts) => alerts.forEach((alert) => {
+        console.log(`[${ts()}] ${alert}`);
+        forwardTextToTelegram(alert);
+      }))
+      .catch((err) => console.error(`[${ts()}] Budget check failed:`, err));
+  });
+
+  // Tool calls land in the daemon log as they happen, so a long run can be followed with `tail -f`.
+  onRunEvent((event) => {
+    if (event.type !== "tool_use") return;
+    console.log(`[${ts()}] ${event.name}: ${event.tool}${event.summary ? ` ${event.summary}` : ""}`);
+  });
+
+  // --- Catch-up for occurrences missed while the daemon was down ---
+  async function catchUpMissedRuns() {
+    const now = Date.now();
+    // The scheduler evaluates the current minute itself.
+    const until = new Date(Math.floor(now / 60_000) * 60_000 - 1);
+    const horizonMs = currentSettings.scheduler.catchUpHorizonMinutes * 60_000;
+    const lastTickAt = await getLastTickAt();
+    await pruneLedger(currentJobs.map((j) => j.name));
+
+    for (const job of currentJobs) {
+      const policy = job.catchUp ?? "none";
+      if (policy === "none" || horizonMs <= 0) continue;
+      // A job that never fired owes nothing from before its file was written,
+      // e.g. one added while the daemon was stopped.
+      const lastFiredAt = await getLastFiredAt(job.name);
+      const since = lastFiredAt ?? (lastTickAt ? Math.max(lastTickAt, (await getJobFileModifiedAt(job.name)) ?? now) : 0);
+      if (!since) continue;
+
+      const from = new Date(Math.max(since, now - horizonMs));
+      const limit = policy === "once" ? 1 : MAX_CATCH_UP_RUNS;
+      const missed = runsBetween(job, from, until, limit, getJobTimezone(job, currentSettings));
+      if (missed.length === 0) continue;
+      if (!(await recordJobFired(job.name, missed[missed.length - 1].getTime()))) continue;
+
+      const times = missed.map((d) => d.toLocaleTimeString()).join(", ");
+      console.log(`[${ts()}] Catch-up: ${job.name} (${policy}) replaying missed run(s) at ${times}`);
+      (async () => {
+        for (let i = 0; i < missed.length; i++) await fireJob(job, "catch-up");
+      })().catch((err) => console.error(`[${ts()}] Catch-up of ${job.name} failed:`, err));
+    }
+  }
+
+  await catchUpMissedRuns().catch((err) => console.error(`[${ts()}] Catch-up failed:`, err));
+
+  scheduler = startScheduler({
+    getJobs: () => currentJobs,
+    getTimezone: (job) => getJobTimezone(job, currentSettings),
+    onFire: (job, occurrenceAt) => {
+      // The ledger is the cross-restart half of double-fire protection.
+      recordJobFired(job.name, occurrenceAt)
+        .then((isNew) => {
+          if (isNew) return fireJob(job, "schedule");
+          console.log(`[${ts()}] Skipped ${job.name}: already fired for ${new Date(occurrenceAt).toLocaleTimeString()}`);
+        })
+        .catch((err) => console.error(`[${ts()}] Failed to fire ${job.name}:`, err));
+    },
+    onTick: (at) => {
+      const disabled = currentJobs.filter((j) => !j.enabled).map((j) => j.name);
+      recordTick(at, disabled).catch((err) => console.error(`[${ts()}] Failed to record scheduler tick:`, err));
+      clearExpiredPauses(at).catch((err) => console.error(`[${ts()}] Failed to clear expired pauses:`, err));
+      updateState();
+    },
+    onClockJump: (jump) => {
+      if (jump.direction === "backward") return;
+      catchUpMissedRuns().catch((err) => console.error(`[${ts()}] Catch-up failed:`, err));
+    },
+  });
 }
@@ -1,13 +1,25 @@
 import { join } from "path";
 import { readdir, readFile } from "fs/promises";
 import { homedir } from "os";
+import { getJobTimezone, inspectJobs } from "../jobs";
+import { formatJobDiagnostics, summarizeJobReports } from "../job-diagnostics";
+import { formatSchedule, nextRuns } from "../schedule";
+import { getSettingsTimezone, loadSettings } from "../config";
+import { countSuppressedRuns } from "../run-history";
+import { heartbeatRunName } from "../heartbeat";
+import { formatUsageTotals, getUsageReport } from "../usage";
+import { formatBudgetUse, getBudgetStatuses } from "../budgets";
+import { formatLocalDateTime, resolveOffsetMinutesAt } from "../timezone";
 
 const CLAUDE_DIR = join(process.cwd(), ".claude");
 const HEARTBEAT_DIR = join(CLAUDE_DIR, "claudeclaw");
 const PID_FILE = join(HEARTBEAT_DIR, "daemon.pid");
 const STATE_FILE = join(HEARTBEAT_DIR, "state.json");
 const SETTINGS_FILE = join(HEARTBEAT_DIR, "settings.json");
-const JOBS_DIR = join(HEARTBEAT_DIR, "jobs");
+const UPCOMING_PREVIEW_COUNT = 3;
+const DAY_MS = 86_400_000;
+const USAGE_DAYS = 7;
+const USAGE_TOP_JOBS = 5;
 
 function formatCountdown(ms: number): string {
   if (ms <= 0) return "now!";
@@ -96,21 +108,62 @@ async function showStatus(): Promise<boolean> {
     if (hb.enabled) {
       console.log(`  Heartbeat timezone: ${timezone}`);
       console.log(`  Quiet windows: ${windows.length > 0 ? windows.length : "none"}`);
+      const counts = await countSuppressedRuns("heartbeat", Date.now() - DAY_MS);
+      console.log(`  Last 24h: ${counts.delivered} forwarded, ${counts.suppressed} suppressed (nothing to report)`);
     }
   } catch {}
 
   try {
-    const files = await readdir(JOBS_DIR);
-    const mdFiles = files.filter((f) => f.endsWith(".md"));
-    if (mdFiles.length > 0) {
-      console.log(`  Jobs: ${mdFiles.length}`);
-      for (const f of mdFiles) {
-        const content = await Bun.file(join(JOBS_DIR, f)).text();
-        const match = content.match(/schedule:\s*["']?([^"'\n]+)/);
-        const schedule = match ? match[1].trim() : "unknown";
-        console.log(`    - ${f.replace(/\.md$/, "")} [${schedule}]`);
+    const settings = await loadSettings();
+    for (const hb of settings.heartbeats) {
+      const details = [hb.sessionGroup ? `group ${hb.sessionGroup}` : "", hb.model ?? ""].filter(Boolean).join(", ");
+      console.log(`  Heartbeat ${hb.name}: ${hb.enabled ? `every ${hb.interval}m` : "disabled"}${details ? ` (${details})` : ""}`);
+      if (!hb.enabled) continue;
+      const counts = await countSuppressedRuns(heartbeatRunName(hb.name), Date.now() - DAY_MS);
+      console.log(`    Last 24h: ${counts.delivered} forwarded, ${counts.suppressed} suppressed`);
+    }
+  } catch {}
+
+  try {
+    const settings = await loadSettings();
+    const { jobs, reports } = await inspectJobs();
+    if (jobs.length > 0) {
+      const now = new Date();
+      console.log(`  Jobs: ${jobs.length}`);
+      for (const job of jobs) {
+        console.log(`    - ${job.name} [${formatSchedule(job)}]${job.timezone ? ` (${job.timezone})` : ""}`);
+        const timezone = getJobTimezone(job, settings);
+        const upcoming = nextRuns(job, now, UPCOMING_PREVIEW_COUNT, timezone);
+        const preview = upcoming.map((d) => formatLocalDateTime(d, resolveOffsetMinutesAt(timezone, d))).join(", ");
+        // An `at` job that already ran, or one past its `end`, has nothing left.
+        const none = !job.enabled ? "none (paused)" : job.schedule.kind === "triggered" ? "when upstream jobs succeed" : "none (expired)";
+        console.log(`      \x1b[2mupcoming: ${preview || none}\x1b[0m`);
       }
     }
+    // Only files that won't run are worth listing here; `jobs validate` shows them all.
+    const diagnostics = summarizeJobReports(reports, settings);
+    if (diagnostics.rejected + diagnostics.inert > 0) {
+      console.log(`  Job files not running: ${diagnostics.rejected} rejected, ${diagnostics.inert} inert`);
+      const problems = { ...diagnostics, files: diagnostics.files.filter((f) => f.status !== "loaded") };
+      formatJobDiagnostics(problems, false).forEach((line) => console.log(`    ${line}`));
+    }
+  } catch {}
+
+  try {
+    const settings = await loadSettings();
+    const timezone = getSettingsTimezone(settings);
+    const [today, week] = await Promise.all([getUsageReport(1, timezone), getUsageReport(USAGE_DAYS, timezone)]);
+    if (week.total.runs > 0) {
+      console.log(`  Usage today: ${formatUsageTotals(today.total)}`);
+      console.log(`  Usage last ${USAGE_DAYS} days: ${formatUsageTotals(week.total)}`);
+      const top = Object.entries(week.byJob).sort((a, b) => b[1].costUsd - a[1].costUsd).slice(0, USAGE_TOP_JOBS);
+      for (const [job, totals] of top) console.log(`    \x1b[2m${job}: ${formatUsageTotals(totals)}\x1b[0m`);
+    }
+    for (const status of await getBudgetStatuses(settings)) {
+      const color = status.used >= 1 ? "\x1b[31m" : status.used >= 0.8 ? "\x1b[33m" : "\x1b[32m";
+      const policy = status.budget.policy === "downgrade" ? `downgrade to ${status.budget.model}` : status.budget.policy;
+      console.log(`  Budget, ${status.label}: ${color}${Math.round(status.used * 100)}%\x1b[0m (${formatBudgetUse(status)}; then ${policy})`);
+    }
   } catch {}
 
   try {
@@ -122,9 +175,12 @@ async function showStatus(): Promise<boolean> {
         `  \x1b[31m♥\x1b[0m Next heartbeat: ${formatCountdown(state.heartbeat.nextAt - now)}`
       );
     }
+    for (const hb of state.heartbeats || []) {
+      console.log(`  \x1b[31m♥\x1b[0m Next ${hb.name}: ${formatCountdown(hb.nextAt - now)}`);
+    }
     for (const job of state.jobs || []) {
       console.log(
-        `  → ${job.name}: ${formatCountdown(job.nextAt - now)}`
+        `  → ${job.name}: ${job.nextAt == null ? (job.paused ? "paused" : "never") : formatCountdown(job.nextAt - now)}${job.paused && job.nextAt != null ? " (paused)" : ""}`
       );
     }
   } catch {}
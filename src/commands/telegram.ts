@@ -1,5 +1,10 @@
-import { ensureProjectClaudeMd, run, runUserMessage, type RunOptions } from "../runner";
+import { cancelRun, ensureProjectClaudeMd, listActiveRuns, run, runUserMessage, type RunOptions } from "../runner";
+import { formatDuration } from "../duration";
+import { getJobTimezone, loadJobs, parsePauseUntil, pauseJob, resumeJob } from "../jobs";
+import { formatRunResult, runJobNow } from "../job-runner";
+import { onRunEvent } from "../run-events";
 import { getSettings, loadSettings } from "../config";
+import { formatLocalDateTimeValue } from "../schedule";
 import { resetSession } from "../sessions";
 import { transcribeAudioToText } from "../whisper";
 import {
@@ -71,6 +76,9 @@ function markdownToTelegramHtml(text: string): string {
 
 const API_BASE = "https://api.telegram.org/bot";
 const FILE_API_BASE = "https://api.telegram.org/file/bot";
+// Telegram rate-limits message edits; progress updates are batched to one per interval.
+const PROGRESS_EDIT_INTERVAL_MS = 3_000;
+const MAX_PROGRESS_CHARS = 300;
 
 interface TelegramUser {
   id: number;
@@ -253,6 +261,72 @@ function extensionFromAudioMimeType(mimeType?: string): string {
   }
 }
 
+function handleCancelCommand(arg: string): string {
+  const runs = listActiveRuns();
+  if (runs.length === 0) return "Nothing is running.";
+
+  const target = arg.trim();
+  const matches = target === "all" ? runs
+    : target ? runs.filter((r) => r.id === target || r.name === target)
+    : runs.length === 1 ? runs
+    : [];
+
+  if (matches.length === 0) {
+    const lines = runs.map((r) => `${r.id} — ${r.name} (${formatDuration(Date.now() - r.startedAt)})`);
+    return [target ? `No running run matches "${target}".` : "Several runs are in flight:", ...lines, "Use /cancel <id|name|all>."].join("\n");
+  }
+
+  for (const r of matches) cancelRun(r.id);
+  return `Cancelled ${matches.map((r) => `${r.name} (${r.id})`).join(", ")}.`;
+}
+
+async function handleRunCommand(token: string, chatId: number, name: string): Promise<void> {
+  const jobs = await loadJobs();
+  const job = jobs.find((j) => j.name === name);
+  if (!job) {
+    const list = jobs.map((j) => j.name).join(", ") || "none";
+    await sendMessage(token, chatId, `${name ? `No job named "${name}". ` : ""}Usage: /run <name>\nJobs: ${list}`);
+    return;
+  }
+
+  await sendMessage(token, chatId, `Running ${job.name}...`);
+  const result = await runJobNow(job);
+  await sendMessage(
+    token,
+    chatId,
+    result ? formatRunResult(job.name, result) : `[${job.name}] skipped: previous run still in progress`
+  );
+}
+
+/** `/pause <name> [until]` and `/resume <name>`; the daemon picks the change up on its next reload. */
+async function handlePauseCommand(command: "/pause" | "/resume", arg: string): Promise<string> {
+  const [name, rawUntil] = arg.trim().split(/\s+/);
+  const jobs = await loadJobs();
+  const job = jobs.find((j) => j.name === name);
+  if (!job) {
+    const usage = command === "/pause" ? "/pause <name> [2h|2026-11-03T09:30]" : "/resume <name>";
+    return `${name ? `No job named "${name}". ` : ""}Usage: ${usage}\nJobs: ${jobs.map((j) => j.name).join(", ") || "none"}`;
+  }
+
+  try {
+    if (command === "/resume") {
+      if (job.enabled && !job.pausedUntil) return `${job.name} is not paused.`;
+      await resumeJob(job.name);
+      return `Resumed ${job.name}.`;
+    }
+    if (!rawUntil) {
+      await pauseJob(job.name);
+      return `Paused ${job.name}. Use /resume ${job.name} to resume it.`;
+    }
+    const until = parsePauseUntil(rawUntil, getJobTimezone(job, getSettings()));
+    if (!until) return `Invalid until "${rawUntil}": use a future date/time or a duration like 2h.`;
+    await pauseJob(job.name, until);
+    return `Paused ${job.name} until ${formatLocalDateTimeValue(until)}.`;
+  } catch (err) {
+    return `Failed to ${command.slice(1)} ${job.name}: ${err instanceof Error ? err.message : String(err)}`;
+  }
+}
+
 function extractTelegramCommand(text: string): string | null {
   const firstToken = text.trim().split(/\s+/, 1)[0];
   if (!firstToken.startsWith("/")) return null;
@@ -299,6 +373,56 @@ async function sendTyping(token: string, chatId: number): Promise<void> {
   await callApi(token, "sendChatAction", { chat_id: chatId, action: "typing" }).catch(() => {});
 }
 
+/**
+ * Show what a run is doing in one silent message, edited as its tool calls and
+ * text arrive, so a long answer isn't just a typing indicator. The returned
+ * function stops following the run and deletes the message.
+ */
+function followRunProgress(token: string, chatId: number, runId: string): () => Promise<void> {
+  let messageId: number | null = null;
+  let latest = "";
+  let shown = "";
+  let lastEditAt = 0;
+  let pending: ReturnType<typeof setTimeout> | null = null;
+  let inFlight: Promise<unknown> = Promise.resolve();
+
+  const flush = () => {
+    pending = null;
+    if (latest === shown) return;
+    shown = latest;
+    lastEditAt = Date.now();
+    inFlight = inFlight.then(async () => {
+      if (messageId === null) {
+        const resp = await callApi<{ ok: boolean; result: { message_id: number } }>(token, "sendMessage", {
+          chat_id: chatId,
+          text: shown,
+          disable_notification: true,
+        }).catch(() => null);
+        if (resp?.ok) messageId = resp.result.message_id;
+      } else {
+        await callApi(token, "editMessageText", { chat_id: chatId, message_id: messageId, text: shown }).catch(() => {});
+      }
+    });
+  };
+
+  const unsubscribe = onRunEvent((event) => {
+    if (event.runId !== runId) return;
+    const text = event.type === "tool_use" ? `${event.tool}${event.summary ? `: ${event.summary}` : ""}`
+      : event.type === "text" ? event.text.replace(/\s+/g, " ").trim()
+      : "";
+    if (!text) return;
+    latest = `⏳ ${text.length > MAX_PROGRESS_CHARS ? `${text.slice(0, MAX_PROGRESS_CHARS - 1)}…` : text}`;
+    pending ??= setTimeout(flush, Math.max(0, lastEditAt + PROGRESS_EDIT_INTERVAL_MS - Date.now()));
+  });
+
+  return async () => {
+    unsubscribe();
+    if (pending) clearTimeout(pending);
+    await inFlight;
+    if (messageId !== null) await callApi(token, "deleteMessage", { chat_id: chatId, message_id: messageId }).catch(() => {});
+  };
+}
+
 function extractReactionDirective(text: string): { cleanedText: string; reactionEmoji: string | null } {
   let reactionEmoji: string | null = null;
   const cleanedText = text
@@ -445,7 +569,7 @@ async function handleMyChatMember(update: TelegramMyChatMemberUpdate): Promise<v
 
   try {
     const result = await run("telegram", eventPrompt);
-    if (result.exitCode !== 0) {
+    if (result.exitCode !== 0 || result.skipped) {
       await sendMessage(config.token, chat.id, "I was added to this group. Mention me with a command to start.");
       return;
     }
@@ -502,7 +626,7 @@ async function handleMessage(message: TelegramMessage): Promise<void> {
     await sendMessage(
       config.token,
       chatId,
-      "Hello! Send me a message and I'll respond using Claude.\nUse /reset to start a fresh session."
+      "Hello! Send me a message and I'll respond using Claude.\nUse /reset to start a fresh session.\nUse /run <job> to run a job now, /cancel to stop a running one.\nUse /pause <job> [until] and /resume <job> to pause and resume a job."
     );
     return;
   }
@@ -513,6 +637,24 @@ async function handleMessage(message: TelegramMessage): Promise<void> {
     return;
   }
 
+  if (command === "/run") {
+    const arg = text.trim().split(/\s+/).slice(1).join(" ");
+    await handleRunCommand(config.token, chatId, arg);
+    return;
+  }
+
+  if (command === "/pause" || command === "/resume") {
+    const arg = text.trim().split(/\s+/).slice(1).join(" ");
+    await sendMessage(config.token, chatId, await handlePauseCommand(command, arg));
+    return;
+  }
+
+  if (command === "/cancel") {
+    const arg = text.trim().split(/\s+/).slice(1).join(" ");
+    await sendMessage(config.token, chatId, handleCancelCommand(arg));
+    return;
+  }
+
   // Secretary: detect reply to a bot alert message → treat as custom reply
   const replyToMsgId = message.reply_to_message?.message_id;
   if (replyToMsgId && text && botId && message.reply_to_message?.from?.id === botId) {
@@ -614,14 +756,17 @@ async function handleMessage(message: TelegramMessage): Promise<void> {
       }
     }
 
-    const runOptions: RunOptions = {};
+    const runOptions: RunOptions = { runId: crypto.randomUUID().slice(0, 8) };
     if (sessionGroup) {
       runOptions.sessionGroup = sessionGroup;
     }
 
-    const result = await runUserMessage("telegram", prefixedPrompt, runOptions);
+    const stopProgress = followRunProgress(config.token, chatId, runOptions.runId!);
+    const result = await runUserMessage("telegram", prefixedPrompt, runOptions).finally(stopProgress);
 
-    if (result.exitCode !== 0) {
+    if (result.skipped) {
+      await sendMessage(config.token, chatId, `Not run: ${result.skipped}`);
+    } else if (result.exitCode !== 0) {
       await sendMessage(config.token, chatId, `Error (exit ${result.exitCode}): ${result.stderr || "Unknown error"}`);
     } else {
       const { cleanedText, reactionEmoji } = extractReactionDirective(result.stdout || "");
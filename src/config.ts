@@ -1,7 +1,11 @@
 import { join, isAbsolute } from "path";
 import { mkdir } from "fs/promises";
 import { existsSync } from "fs";
-import { normalizeTimezoneName, resolveTimezoneOffsetMinutes } from "./timezone";
+import type { BudgetConfig } from "./budgets";
+import type { ExcludeWindow } from "./exclusions";
+import { DEFAULT_OK_REPLIES } from "./heartbeat";
+import { BUILTIN_PROVIDERS, type ProviderConfig } from "./providers";
+import { isIanaTimezone, normalizeTimezoneName, resolveTimezoneOffsetMinutes, type TimezoneSpec } from "./timezone";
 
 const HEARTBEAT_DIR = join(process.cwd(), ".claude", "claudeclaw");
 const SETTINGS_FILE = join(HEARTBEAT_DIR, "settings.json");
@@ -22,23 +26,39 @@ const DEFAULT_SETTINGS: Settings = {
     interval: 15,
     prompt: "",
     excludeWindows: [],
+    okReplies: [...DEFAULT_OK_REPLIES],
   },
+  heartbeats: [],
+  budgets: [],
+  providers: {},
   telegram: { token: "", allowedUserIds: [] },
   security: { level: "moderate", allowedTools: [], disallowedTools: [] },
   web: { enabled: false, host: "127.0.0.1", port: 4632 },
+  scheduler: { catchUpHorizonMinutes: 1440 },
+  runTimeoutMinutes: 60,
 };
 
-export interface HeartbeatExcludeWindow {
-  days?: number[];
-  start: string;
-  end: string;
-}
+export type HeartbeatExcludeWindow = ExcludeWindow;
 
 export interface HeartbeatConfig {
   enabled: boolean;
   interval: number;
   prompt: string;
   excludeWindows: HeartbeatExcludeWindow[];
+  /** Replies meaning "nothing to report"; a heartbeat answering only with one of these isn't forwarded. */
+  okReplies: string[];
+}
+
+/** Where a heartbeat's results go: every allowed Telegram user, nobody, or these Telegram chat ids. */
+export type HeartbeatNotify = "telegram" | "none" | number[];
+
+/** One entry of `heartbeats`: a heartbeat with its own schedule, prompt, session group and model. */
+export interface NamedHeartbeatConfig extends HeartbeatConfig {
+  name: string;
+  /** Session group its runs queue in and resume; `default` when unset. */
+  sessionGroup?: string;
+  model?: string;
+  notify: HeartbeatNotify;
 }
 
 export interface TelegramConfig {
@@ -58,6 +78,11 @@ export interface SecurityConfig {
   disallowedTools: string[];
 }
 
+export interface SchedulerConfig {
+  /** How far back missed occurrences are replayed on startup (jobs with `catch_up`). */
+  catchUpHorizonMinutes: number;
+}
+
 export interface SessionRotationConfig {
   threshold: number;
   enabled: boolean;
@@ -70,9 +95,18 @@ export interface Settings {
   timezone: string;
   timezoneOffsetMinutes: number;
   heartbeat: HeartbeatConfig;
+  /** Extra heartbeats, each scheduled on its own next to `heartbeat`. */
+  heartbeats: NamedHeartbeatConfig[];
+  /** Daily and monthly caps on cost and tokens; see budgets.ts. */
+  budgets: BudgetConfig[];
+  /** Backends a `model` can name as `provider/model`, the built-in `glm` included. */
+  providers: Record<string, ProviderConfig>;
   telegram: TelegramConfig;
   security: SecurityConfig;
   web: WebConfig;
+  scheduler: SchedulerConfig;
+  /** Default time limit for a Claude run; jobs override it with `timeout`. 0 disables. */
+  runTimeoutMinutes: number;
   sessionRotation?: SessionRotationConfig;
 }
 
@@ -129,7 +163,11 @@ function parseSettings(raw: Record<string, any>): Settings {
       interval: raw.heartbeat?.interval ?? 15,
       prompt: raw.heartbeat?.prompt ?? "",
       excludeWindows: parseExcludeWindows(raw.heartbeat?.excludeWindows),
+      okReplies: parseOkReplies(raw.heartbeat?.okReplies),
     },
+    heartbeats: parseNamedHeartbeats(raw.heartbeats),
+    budgets: parseBudgets(raw.budgets),
+    providers: parseProviders(raw.providers),
     telegram: {
       token: raw.telegram?.token ?? "",
       allowedUserIds: raw.telegram?.allowedUserIds ?? [],
@@ -148,6 +186,12 @@ function parseSettings(raw: Record<string, any>): Settings {
       host: raw.web?.host ?? "127.0.0.1",
       port: Number.isFinite(raw.web?.port) ? Number(raw.web.port) : 4632,
     },
+    scheduler: {
+      catchUpHorizonMinutes: Number.isFinite(raw.scheduler?.catchUpHorizonMinutes)
+        ? Math.max(0, Number(raw.scheduler.catchUpHorizonMinutes))
+        : 1440,
+    },
+    runTimeoutMinutes: Number.isFinite(raw.runTimeoutMinutes) ? Math.max(0, Number(raw.runTimeoutMinutes)) : 60,
     sessionRotation: raw.sessionRotation ? {
       threshold: Number.isFinite(raw.sessionRotation?.threshold) ? Number(raw.sessionRotation.threshold) : 120000,
       enabled: raw.sessionRotation?.enabled !== false,
@@ -186,6 +230,119 @@ function parseExcludeWindows(value: unknown): HeartbeatExcludeWindow[] {
   return out;
 }
 
+function parseOkReplies(value: unknown): string[] {
+  if (!Array.isArray(value)) return [...DEFAULT_OK_REPLIES];
+  return value.filter((r) => typeof r === "string" && r.trim()).map((r: string) => r.trim());
+}
+
+function parseNotify(value: unknown): HeartbeatNotify {
+  if (value === "none" || value === false) return "none";
+  if (Array.isArray(value)) {
+    const ids = value.map((id) => Number(id)).filter((id) => Number.isInteger(id));
+    if (ids.length > 0) return ids;
+  }
+  return "telegram";
+}
+
+// Settings are re-read every 30s; a broken entry is reported once, not on every reload.
+const warned = new Set<string>();
+function warnOnce(message: string) {
+  if (warned.has(message)) return;
+  warned.add(message);
+  console.warn(message);
+}
+
+/** `heartbeats` entries; one without a name, or reusing one, is dropped with a warning. */
+function parseNamedHeartbeats(value: unknown): NamedHeartbeatConfig[] {
+  if (!Array.isArray(value)) return [];
+  const out: NamedHeartbeatConfig[] = [];
+  for (const entry of value) {
+    const name = typeof entry?.name === "string" ? entry.name.trim() : "";
+    if (!/^[\w-]+$/.test(name) || name === "heartbeat" || out.some((hb) => hb.name === name)) {
+      warnOnce(`[config] Ignoring heartbeats entry ${JSON.stringify(entry?.name ?? null)}: needs a unique name of letters, digits, - and _`);
+      continue;
+    }
+    const interval = Number(entry.interval);
+    const prompt = typeof entry.promptFile === "string" ? entry.promptFile : typeof entry.prompt === "string" ? entry.prompt : "";
+    out.push({
+      name,
+      enabled: entry.enabled !== false,
+      interval: Number.isFinite(interval) && interval > 0 ? interval : 15,
+      prompt,
+      excludeWindows: parseExcludeWindows(entry.excludeWindows),
+      okReplies: parseOkReplies(entry.okReplies),
+      ...(typeof entry.sessionGroup === "string" && entry.sessionGroup.trim() ? { sessionGroup: entry.sessionGroup.trim() } : {}),
+      ...(typeof entry.model === "string" && entry.model.trim() ? { model: entry.model.trim() } : {}),
+      notify: parseNotify(entry.notify),
+    });
+  }
+  return out;
+}
+
+/** `budgets` entries; one without a cap, or downgrading without a model, is dropped with a warning. */
+function parseBudgets(value: unknown): BudgetConfig[] {
+  if (!Array.isArray(value)) return [];
+  const out: BudgetConfig[] = [];
+  for (const entry of value) {
+    const maxCostUsd = Number(entry?.maxCostUsd);
+    const maxTokens = Number(entry?.maxTokens);
+    const budget: BudgetConfig = {
+      period: entry?.period === "monthly" ? "monthly" : "daily",
+      policy: entry?.policy === "downgrade" || entry?.policy === "user-only" ? entry.policy : "refuse",
+      ...(typeof entry?.job === "string" && entry.job.trim() ? { job: entry.job.trim() } : {}),
+      ...(typeof entry?.sessionGroup === "string" && entry.sessionGroup.trim() ? { sessionGroup: entry.sessionGroup.trim() } : {}),
+      ...(Number.isFinite(maxCostUsd) && maxCostUsd > 0 ? { maxCostUsd } : {}),
+      ...(Number.isFinite(maxTokens) && maxTokens > 0 ? { maxTokens } : {}),
+      ...(typeof entry?.model === "string" && entry.model.trim() ? { model: entry.model.trim() } : {}),
+    };
+    if (!budget.maxCostUsd && !budget.maxTokens) {
+      warnOnce(`[config] Ignoring budget ${JSON.stringify(entry)}: needs maxCostUsd or maxTokens`);
+      continue;
+    }
+    if (budget.policy === "downgrade" && !budget.model) {
+      warnOnce(`[config] Ignoring budget ${JSON.stringify(entry)}: the downgrade policy needs a model`);
+      continue;
+    }
+    out.push(budget);
+  }
+  return out;
+}
+
+/** `providers` over the built-in ones; an entry without a base URL is dropped with a warning. */
+function parseProviders(value: unknown): Record<string, ProviderConfig> {
+  const out: Record<string, ProviderConfig> = { ...BUILTIN_PROVIDERS };
+  if (!value || typeof value !== "object" || Array.isArray(value)) return out;
+  for (const [rawName, entry] of Object.entries(value as Record<string, any>)) {
+    const name = rawName.trim().toLowerCase();
+    const baseUrl = typeof entry?.baseUrl === "string" ? entry.baseUrl.trim() : "";
+    if (!/^[\w-]+$/.test(name) || !/^https?:\/\//.test(baseUrl)) {
+      warnOnce(`[config] Ignoring provider ${JSON.stringify(rawName)}: needs a name of letters, digits, - and _ and an http(s) baseUrl`);
+      continue;
+    }
+    const timeoutMs = Number(entry.timeoutMs);
+    const env: Record<string, string> = {};
+    if (entry.env && typeof entry.env === "object") {
+      for (const [key, val] of Object.entries(entry.env)) {
+        if (typeof val === "string" || typeof val === "number") env[key] = String(val);
+      }
+    }
+    out[name] = {
+      baseUrl,
+      ...(typeof entry.authToken === "string" && entry.authToken.trim() ? { authToken: entry.authToken.trim() } : {}),
+      ...(typeof entry.authTokenEnv === "string" && entry.authTokenEnv.trim() ? { authTokenEnv: entry.authTokenEnv.trim() } : {}),
+      ...(Number.isFinite(timeoutMs) && timeoutMs > 0 ? { timeoutMs } : {}),
+      ...(typeof entry.defaultModel === "string" && entry.defaultModel.trim() ? { defaultModel: entry.defaultModel.trim() } : {}),
+      env,
+    };
+  }
+  return out;
+}
+
+/** Every heartbeat: the main `heartbeat` (named "heartbeat", default group, notifying Telegram) and then `heartbeats`. */
+export function listHeartbeats(settings: Settings): NamedHeartbeatConfig[] {
+  return [{ ...settings.heartbeat, name: "heartbeat", notify: "telegram" }, ...settings.heartbeats];
+}
+
 function parseTimezoneOffsetMinutes(value: unknown, timezoneFallback?: string): number {
   return resolveTimezoneOffsetMinutes(value, timezoneFallback);
 }
@@ -204,6 +361,14 @@ export async function reloadSettings(): Promise<Settings> {
   return cached;
 }
 
+/**
+ * Timezone for schedules: an IANA zone is resolved per instant so DST changes
+ * are picked up; anything else uses the fixed `timezoneOffsetMinutes`.
+ */
+export function getSettingsTimezone(settings: Settings): TimezoneSpec {
+  return isIanaTimezone(settings.timezone) ? settings.timezone : settings.timezoneOffsetMinutes;
+}
+
 export function getSettings(): Settings {
   if (!cached) throw new Error("Settings not loaded. Call loadSettings() first.");
   return cached;
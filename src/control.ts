@@ -0,0 +1,52 @@
+import { join } from "path";
+import { unlink } from "fs/promises";
+import { unlinkSync } from "fs";
+import { runJobNowReport } from "./job-runner";
+import type { Job } from "./jobs";
+
+const SOCKET_FILE = join(process.cwd(), ".claude", "claudeclaw", "daemon.sock");
+
+export interface ControlServerHandle {
+  stop: () => Promise<void>;
+}
+
+/**
+ * The daemon's local control socket: how the CLI hands it work (`jobs run`)
+ * whether or not the web UI is on. Only `POST /jobs/:name/run` for now; it
+ * answers once the run is done, with a RunNowReport.
+ */
+export function startControlServer(opts: { getJobs: () => Job[] }): ControlServerHandle {
+  // A socket left behind by a daemon that didn't shut down cleanly.
+  try {
+    unlinkSync(SOCKET_FILE);
+  } catch {
+    // none
+  }
+
+  const server = Bun.serve({
+    unix: SOCKET_FILE,
+    async fetch(req, server) {
+      const url = new URL(req.url);
+      const match = url.pathname.match(/^\/jobs\/([^/]+)\/run$/);
+      if (!match || req.method !== "POST") return Response.json({ ok: false, error: "not found" }, { status: 404 });
+      const name = decodeURIComponent(match[1]);
+      const job = opts.getJobs().find((j) => j.name === name);
+      if (!job) return Response.json({ ok: false, error: `Unknown job "${name}"` }, { status: 404 });
+      // Runs can take as long as their timeout; don't let the idle timeout cut the answer off.
+      server.timeout(req, 0);
+      return Response.json({ ok: true, ...(await runJobNowReport(job)) });
+    },
+  });
+
+  return {
+    stop: async () => {
+      server.stop(true);
+      await unlink(SOCKET_FILE).catch(() => {});
+    },
+  };
+}
+
+/** Send a request to the running daemon's control socket. Throws when nothing listens there. */
+export function requestDaemon(path: string, init?: RequestInit): Promise<Response> {
+  return fetch(`http://localhost${path}`, { ...init, unix: SOCKET_FILE });
+}
@@ -1,53 +1,453 @@
-import { shiftDateToOffset } from "./timezone";
+import { localTimeToUtc, localTimeToUtcInstants, resolveOffsetMinutesAt, type TimezoneSpec } from "./timezone";
 
-function matchCronField(field: string, value: number): boolean {
+/**
+ * Parsed cron expression. Plain fields are expanded to value sets; the
+ * day-of-month and day-of-week modifiers (L, W, #) are kept separately
+ * because they depend on the month being evaluated.
+ */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** `L` / `L-n`: n days before the last day of the month. */
+  lastDayOffsets: number[];
+  /** `LW`: last weekday (Mon-Fri) of the month. */
+  lastWeekdayOfMonth: boolean;
+  /** `nW`: weekday nearest to day n, without crossing the month boundary. */
+  nearestWeekdays: number[];
+  /** `dL`: last given weekday of the month. */
+  lastWeekdays: number[];
+  /** `d#n`: nth given weekday of the month. */
+  nthWeekdays: { day: number; nth: number }[];
+  domRestricted: boolean;
+  dowRestricted: boolean;
+  /**
+   * Wildcard or step hour field (`*`, `*\/2`): fires in both passes of a
+   * repeated (fall-back) hour. A fixed hour fires in the first pass only.
+   */
+  hourRepeats: boolean;
+}
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: Record<string, number>;
+}
+
+const MONTH_NAMES: Record<string, number> = {
+  JAN: 1, FEB: 2, MAR: 3, APR: 4, MAY: 5, JUN: 6,
+  JUL: 7, AUG: 8, SEP: 9, OCT: 10, NOV: 11, DEC: 12,
+};
+
+const DAY_NAMES: Record<string, number> = {
+  SUN: 0, MON: 1, TUE: 2, WED: 3, THU: 4, FRI: 5, SAT: 6,
+};
+
+const MINUTE: FieldSpec = { name: "minute", min: 0, max: 59 };
+const HOUR: FieldSpec = { name: "hour", min: 0, max: 23 };
+const DAY_OF_MONTH: FieldSpec = { name: "day-of-month", min: 1, max: 31 };
+const MONTH: FieldSpec = { name: "month", min: 1, max: 12, names: MONTH_NAMES };
+// 7 is accepted as an alias for Sunday and folded to 0 after parsing.
+const DAY_OF_WEEK: FieldSpec = { name: "day-of-week", min: 0, max: 7, names: DAY_NAMES };
+
+const MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+const DAYS_IN_MONTH = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+function parseValue(raw: string, spec: FieldSpec): number {
+  const upper = raw.toUpperCase();
+  if (spec.names && upper in spec.names) return spec.names[upper];
+  if (!/^\d+$/.test(raw)) {
+    throw new Error(`${spec.name} field: "${raw}" is not a number${spec.names ? " or name" : ""}`);
+  }
+  const value = Number(raw);
+  if (value < spec.min || value > spec.max) {
+    throw new Error(`${spec.name} field: ${value} is out of range ${spec.min}-${spec.max}`);
+  }
+  return value;
+}
+
+function parseStep(raw: string, spec: FieldSpec): number {
+  if (!/^\d+$/.test(raw) || Number(raw) === 0) {
+    throw new Error(`${spec.name} field: step "${raw}" must be a positive integer`);
+  }
+  return Number(raw);
+}
+
+function expandPart(part: string, spec: FieldSpec, out: Set<number>): void {
+  const [range, stepRaw, extra] = part.split("/");
+  if (extra !== undefined) throw new Error(`${spec.name} field: "${part}" has more than one step`);
+  if (!range) throw new Error(`${spec.name} field: "${part}" is missing a value`);
+  const step = stepRaw === undefined ? 1 : parseStep(stepRaw, spec);
+
+  let lo: number;
+  let hi: number;
+  if (range === "*" || range === "?") {
+    lo = spec.min;
+    hi = spec === DAY_OF_WEEK ? 6 : spec.max;
+  } else if (range.includes("-")) {
+    const [loRaw, hiRaw, rest] = range.split("-");
+    if (rest !== undefined || !loRaw || !hiRaw) throw new Error(`${spec.name} field: malformed range "${range}"`);
+    lo = parseValue(loRaw, spec);
+    hi = parseValue(hiRaw, spec);
+    // `MON-SUN`, `FRI-SUN`: Sunday ending a range is the 7 at the end of the week.
+    if (spec === DAY_OF_WEEK && hi === 0 && lo > 0 && hiRaw.toUpperCase() === "SUN") hi = 7;
+    if (lo > hi) throw new Error(`${spec.name} field: range "${range}" starts after it ends`);
+  } else {
+    lo = parseValue(range, spec);
+    // `5/15` means "from 5 to the end of the field, every 15".
+    hi = stepRaw === undefined ? lo : spec.max;
+  }
+
+  for (let v = lo; v <= hi; v += step) out.add(v);
+}
+
+function parseDayOfMonthPart(part: string, schedule: CronSchedule): boolean {
+  const upper = part.toUpperCase();
+  if (upper === "LW") {
+    schedule.lastWeekdayOfMonth = true;
+    return true;
+  }
+  const last = upper.match(/^L(?:-(\d+))?$/);
+  if (last) {
+    const offset = Number(last[1] ?? "0");
+    if (offset > 30) throw new Error(`day-of-month field: "${part}" offset must be 0-30`);
+    schedule.lastDayOffsets.push(offset);
+    return true;
+  }
+  const nearest = upper.match(/^(\d+)W$/);
+  if (nearest) {
+    schedule.nearestWeekdays.push(parseValue(nearest[1], DAY_OF_MONTH));
+    return true;
+  }
+  return false;
+}
+
+function parseDayOfWeekPart(part: string, schedule: CronSchedule): boolean {
+  const upper = part.toUpperCase();
+  if (upper === "L") {
+    schedule.daysOfWeek.add(6);
+    return true;
+  }
+  const last = upper.match(/^([A-Z]+|\d+)L$/);
+  if (last) {
+    schedule.lastWeekdays.push(parseValue(last[1], DAY_OF_WEEK) % 7);
+    return true;
+  }
+  const nth = upper.match(/^([A-Z]+|\d+)#(\d+)$/);
+  if (nth) {
+    const n = Number(nth[2]);
+    if (n < 1 || n > 5) throw new Error(`day-of-week field: "${part}" occurrence must be 1-5`);
+    schedule.nthWeekdays.push({ day: parseValue(nth[1], DAY_OF_WEEK) % 7, nth: n });
+    return true;
+  }
+  return false;
+}
+
+function parseField(
+  field: string,
+  spec: FieldSpec,
+  out: Set<number>,
+  special?: (part: string) => boolean
+): void {
   for (const part of field.split(",")) {
-    const [range, stepStr] = part.split("/");
-    const step = stepStr ? parseInt(stepStr) : 1;
+    if (!part) throw new Error(`${spec.name} field: empty list entry in "${field}"`);
+    if (special && special(part)) continue;
+    expandPart(part, spec, out);
+  }
+}
+
+function isWildcard(field: string): boolean {
+  return field === "*" || field === "?";
+}
+
+/** Expand `@daily`-style macros into their 5-field form. */
+export function expandCronMacro(expr: string): string {
+  const trimmed = expr.trim();
+  if (!trimmed.startsWith("@")) return trimmed;
+  const macro = MACROS[trimmed.toLowerCase()];
+  if (!macro) throw new Error(`unknown macro "${trimmed}" (supported: ${Object.keys(MACROS).join(", ")})`);
+  return macro;
+}
+
+/**
+ * Parse a 5-field cron expression (or `@macro`). Supports lists, ranges,
+ * steps, month/day names, Sunday as 0 or 7, `?`, and the L/W/# modifiers.
+ * Throws an Error describing the first problem found.
+ */
+export function parseCron(expr: string): CronSchedule {
+  const fields = expandCronMacro(expr).split(/\s+/).filter(Boolean);
+  if (fields.length !== 5) {
+    throw new Error(`expected 5 fields (minute hour day-of-month month day-of-week), got ${fields.length}`);
+  }
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+
+  const schedule: CronSchedule = {
+    minutes: new Set(),
+    hours: new Set(),
+    daysOfMonth: new Set(),
+    months: new Set(),
+    daysOfWeek: new Set(),
+    lastDayOffsets: [],
+    lastWeekdayOfMonth: false,
+    nearestWeekdays: [],
+    lastWeekdays: [],
+    nthWeekdays: [],
+    domRestricted: !isWildcard(dayOfMonth),
+    dowRestricted: !isWildcard(dayOfWeek),
+    hourRepeats: /[*/]/.test(hour),
+  };
+
+  if (minute === "?" || hour === "?" || month === "?") {
+    throw new Error(`"?" is only allowed in the day-of-month and day-of-week fields`);
+  }
+
+  parseField(minute, MINUTE, schedule.minutes);
+  parseField(hour, HOUR, schedule.hours);
+  parseField(dayOfMonth, DAY_OF_MONTH, schedule.daysOfMonth, (part) => parseDayOfMonthPart(part, schedule));
+  parseField(month, MONTH, schedule.months);
+  parseField(dayOfWeek, DAY_OF_WEEK, schedule.daysOfWeek, (part) => parseDayOfWeekPart(part, schedule));
+
+  if (schedule.daysOfWeek.delete(7)) schedule.daysOfWeek.add(0);
+
+  if (schedule.domRestricted && !schedule.dowRestricted && !canEverMatchDayOfMonth(schedule)) {
+    throw new Error(`day-of-month "${dayOfMonth}" never occurs in month "${month}"`);
+  }
+
+  return schedule;
+}
+
+function canEverMatchDayOfMonth(schedule: CronSchedule): boolean {
+  if (schedule.lastDayOffsets.length > 0 || schedule.lastWeekdayOfMonth) return true;
+  const longest = Math.max(...[...schedule.months].map((m) => DAYS_IN_MONTH[m - 1]));
+  for (const day of schedule.daysOfMonth) if (day <= longest) return true;
+  for (const day of schedule.nearestWeekdays) if (day <= longest) return true;
+  return false;
+}
+
+const parsedCache = new Map<string, CronSchedule>();
+
+/** Parse with memoization; expressions are re-evaluated every tick. */
+export function getCronSchedule(expr: string): CronSchedule {
+  const key = expr.trim();
+  let schedule = parsedCache.get(key);
+  if (!schedule) {
+    schedule = parseCron(key);
+    if (parsedCache.size > 500) parsedCache.clear();
+    parsedCache.set(key, schedule);
+  }
+  return schedule;
+}
+
+/** Return a human-readable error for an invalid expression, or null if valid. */
+export function validateCron(expr: string): string | null {
+  try {
+    getCronSchedule(expr);
+    return null;
+  } catch (err) {
+    return `Invalid cron expression "${expr.trim()}": ${err instanceof Error ? err.message : String(err)}`;
+  }
+}
+
+export function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function weekdayOf(year: number, month: number, day: number): number {
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+function nearestWeekday(year: number, month: number, day: number): number | null {
+  const last = daysInMonth(year, month);
+  if (day > last) return null;
+  const dow = weekdayOf(year, month, day);
+  if (dow === 6) return day === 1 ? 3 : day - 1;
+  if (dow === 0) return day === last ? day - 2 : day + 1;
+  return day;
+}
+
+function matchesDayOfMonth(schedule: CronSchedule, year: number, month: number, day: number): boolean {
+  if (schedule.daysOfMonth.has(day)) return true;
+  const last = daysInMonth(year, month);
+  if (schedule.lastDayOffsets.some((offset) => last - offset === day)) return true;
+  if (schedule.lastWeekdayOfMonth) {
+    let lastWeekday = last;
+    while (weekdayOf(year, month, lastWeekday) % 6 === 0) lastWeekday--;
+    if (lastWeekday === day) return true;
+  }
+  return schedule.nearestWeekdays.some((target) => nearestWeekday(year, month, target) === day);
+}
+
+function matchesDayOfWeek(schedule: CronSchedule, year: number, month: number, day: number): boolean {
+  const dow = weekdayOf(year, month, day);
+  if (schedule.daysOfWeek.has(dow)) return true;
+  if (schedule.lastWeekdays.includes(dow) && day + 7 > daysInMonth(year, month)) return true;
+  const nth = Math.floor((day - 1) / 7) + 1;
+  return schedule.nthWeekdays.some((entry) => entry.day === dow && entry.nth === nth);
+}
+
+/**
+ * Day matching with Vixie-cron semantics: when both day-of-month and
+ * day-of-week are restricted, a day matches if either field does.
+ */
+export function cronMatchesDay(schedule: CronSchedule, year: number, month: number, day: number): boolean {
+  if (!schedule.months.has(month)) return false;
+  if (schedule.domRestricted && schedule.dowRestricted) {
+    return matchesDayOfMonth(schedule, year, month, day) || matchesDayOfWeek(schedule, year, month, day);
+  }
+  if (schedule.domRestricted) return matchesDayOfMonth(schedule, year, month, day);
+  if (schedule.dowRestricted) return matchesDayOfWeek(schedule, year, month, day);
+  return true;
+}
 
-    if (range === "*") {
-      if (value % step === 0) return true;
+/**
+ * Whether `expr` fires in the minute containing `date`, evaluated in
+ * `timezone`. Defined through nextCronMatch so DST edges agree with it:
+ * a repeated wall-clock minute fires once (twice for a wildcard or step
+ * hour), a skipped one fires right after the gap.
+ */
+export function cronMatches(expr: string, date: Date, timezone: TimezoneSpec = 0): boolean {
+  const minute = Math.floor(date.getTime() / 60_000) * 60_000;
+  return nextCronMatch(expr, new Date(minute - 60_000), timezone)?.getTime() === minute;
+}
+
+// Longest gap between occurrences of a valid expression is 28 years
+// (e.g. the fifth Sunday of February); search a little beyond that.
+const MAX_SEARCH_YEARS = 30;
+
+function nextInSet(values: Set<number>, from: number, max: number): number | null {
+  for (let v = from; v <= max; v++) if (values.has(v)) return v;
+  return null;
+}
+
+/**
+ * Next wall-clock time strictly after `fromLocalMs` matching the schedule, in
+ * "shifted" ms where UTC getters read local fields. Jumps field by field —
+ * month, day, hour, minute — instead of scanning every minute.
+ */
+function nextLocalMatch(schedule: CronSchedule, fromLocalMs: number): number | null {
+  let t = Math.floor(fromLocalMs / 60_000) * 60_000 + 60_000;
+  const lastYear = new Date(t).getUTCFullYear() + MAX_SEARCH_YEARS;
+
+  while (true) {
+    const d = new Date(t);
+    const year = d.getUTCFullYear();
+    if (year > lastYear) return null;
+    const month = d.getUTCMonth() + 1;
+    const day = d.getUTCDate();
+
+    if (!schedule.months.has(month)) {
+      t = Date.UTC(year, month, 1);
+      continue;
+    }
+    if (!cronMatchesDay(schedule, year, month, day)) {
+      t = Date.UTC(year, month - 1, day + 1);
       continue;
     }
 
-    if (range.includes("-")) {
-      const [lo, hi] = range.split("-").map(Number);
-      if (value >= lo && value <= hi && (value - lo) % step === 0) return true;
+    const hour = nextInSet(schedule.hours, d.getUTCHours(), 23);
+    if (hour == null) {
+      t = Date.UTC(year, month - 1, day + 1);
+      continue;
+    }
+    if (hour !== d.getUTCHours()) {
+      t = Date.UTC(year, month - 1, day, hour);
       continue;
     }
 
-    if (parseInt(range) === value) return true;
+    const minute = nextInSet(schedule.minutes, d.getUTCMinutes(), 59);
+    if (minute == null) {
+      t = Date.UTC(year, month - 1, day, hour + 1);
+      continue;
+    }
+
+    return Date.UTC(year, month - 1, day, hour, minute);
   }
-  return false;
 }
 
-export function cronMatches(expr: string, date: Date, timezoneOffsetMinutes = 0): boolean {
-  const [minute, hour, dayOfMonth, month, dayOfWeek] = expr.trim().split(/\s+/);
-  const shifted = shiftDateToOffset(date, timezoneOffsetMinutes);
-  const d = {
-    minute: shifted.getUTCMinutes(),
-    hour: shifted.getUTCHours(),
-    dayOfMonth: shifted.getUTCDate(),
-    month: shifted.getUTCMonth() + 1,
-    dayOfWeek: shifted.getUTCDay(),
-  };
+/**
+ * Next instant strictly after `after` (at minute resolution) matching `expr`
+ * in `timezone` — a fixed offset in minutes or a zone name resolved per
+ * instant, so DST transitions are honoured. Returns null for invalid
+ * expressions or ones that never fire.
+ */
+export function nextCronMatch(expr: string, after: Date, timezone: TimezoneSpec = 0): Date | null {
+  let schedule: CronSchedule;
+  try {
+    schedule = getCronSchedule(expr);
+  } catch {
+    return null;
+  }
+
+  const afterMinute = Math.floor(after.getTime() / 60_000) * 60_000;
+  const offset = resolveOffsetMinutesAt(timezone, after);
+  const first = nextMatchFrom(schedule, afterMinute + offset * 60_000, afterMinute, timezone);
+  if (!schedule.hourRepeats) return first;
+
+  // Ahead of a fall-back, the repeated hour's second pass comes later in real
+  // time but earlier on the clock than where the search above started.
+  const laterOffset = resolveOffsetMinutesAt(timezone, new Date(afterMinute + HALF_DAY_MS));
+  if (laterOffset >= offset) return first;
+  const second = nextMatchFrom(schedule, afterMinute + laterOffset * 60_000, afterMinute, timezone);
+  if (!first || !second) return first ?? second;
+  return second < first ? second : first;
+}
+
+const HALF_DAY_MS = 12 * 60 * 60_000;
+
+/** First instant after `afterMinute` of a local match at or after the local time `local`. */
+function nextMatchFrom(schedule: CronSchedule, local: number, afterMinute: number, timezone: TimezoneSpec): Date | null {
+  while (true) {
+    const candidate = nextLocalMatch(schedule, local);
+    if (candidate == null) return null;
+    const instants = schedule.hourRepeats ? localTimeToUtcInstants(candidate, timezone) : [localTimeToUtc(candidate, timezone)];
+    // Second pass through a repeated (fall-back) hour maps to an earlier instant.
+    const utc = instants.find((instant) => instant > afterMinute);
+    if (utc !== undefined) return new Date(utc);
+    local = candidate;
+  }
+}
 
-  return (
-    matchCronField(minute, d.minute) &&
-    matchCronField(hour, d.hour) &&
-    matchCronField(dayOfMonth, d.dayOfMonth) &&
-    matchCronField(month, d.month) &&
-    matchCronField(dayOfWeek, d.dayOfWeek)
-  );
+/** Occurrences in (`from`, `to`], oldest first; keeps only the latest `limit`. */
+export function cronMatchesBetween(
+  expr: string,
+  from: Date,
+  to: Date,
+  limit: number,
+  timezone: TimezoneSpec = 0
+): Date[] {
+  const out: Date[] = [];
+  let cursor = from;
+  while (true) {
+    const next = nextCronMatch(expr, cursor, timezone);
+    if (!next || next.getTime() > to.getTime()) break;
+    out.push(next);
+    if (out.length > limit) out.shift();
+    cursor = next;
+  }
+  return out;
 }
 
-export function nextCronMatch(expr: string, after: Date, timezoneOffsetMinutes = 0): Date {
-  const d = new Date(after);
-  d.setSeconds(0, 0);
-  d.setMinutes(d.getMinutes() + 1);
-  for (let i = 0; i < 2880; i++) {
-    if (cronMatches(expr, d, timezoneOffsetMinutes)) return d;
-    d.setMinutes(d.getMinutes() + 1);
+/** The next `count` occurrences after `after`, in order. */
+export function nextCronMatches(expr: string, after: Date, count: number, timezone: TimezoneSpec = 0): Date[] {
+  const out: Date[] = [];
+  let cursor = after;
+  while (out.length < count) {
+    const next = nextCronMatch(expr, cursor, timezone);
+    if (!next) break;
+    out.push(next);
+    cursor = next;
   }
-  return d;
+  return out;
 }
@@ -0,0 +1,42 @@
+const UNIT_MS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+};
+
+const DURATION_PATTERN = /^(?:\d+(?:\.\d+)?(?:ms|s|m|h|d))+$/;
+const PART_PATTERN = /(\d+(?:\.\d+)?)(ms|s|m|h|d)/g;
+
+/**
+ * Parse a duration like `30s`, `5m`, `1h30m` or `2d` into milliseconds.
+ * A bare number is read in `defaultUnit`. Returns null for anything else.
+ */
+export function parseDuration(raw: string, defaultUnit: "s" | "m" = "s"): number | null {
+  const value = raw.trim().toLowerCase();
+  if (!value) return null;
+
+  if (/^\d+(?:\.\d+)?$/.test(value)) return Math.round(Number(value) * UNIT_MS[defaultUnit]);
+  if (!DURATION_PATTERN.test(value)) return null;
+
+  let total = 0;
+  for (const [, amount, unit] of value.matchAll(PART_PATTERN)) {
+    total += Number(amount) * UNIT_MS[unit];
+  }
+  return Math.round(total);
+}
+
+/** Compact form for logs: `45s`, `5m`, `1h30m`, `2d3h`. */
+export function formatDuration(ms: number): string {
+  if (ms < 1000) return `${Math.max(0, Math.round(ms))}ms`;
+  let seconds = Math.round(ms / 1000);
+  const parts: string[] = [];
+  for (const [unit, size] of [["d", 86_400], ["h", 3600], ["m", 60], ["s", 1]] as const) {
+    if (seconds < size) continue;
+    parts.push(`${Math.floor(seconds / size)}${unit}`);
+    seconds %= size;
+    if (parts.length === 2) break;
+  }
+  return parts.join("");
+}
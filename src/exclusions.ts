@@ -0,0 +1,195 @@
+import { stat } from "fs/promises";
+import { extname, isAbsolute, join } from "path";
+import { getDayAndMinuteInTimezone, resolveOffsetMinutesAt, shiftDateToOffset, type TimezoneSpec } from "./timezone";
+
+/** A daily time range in which nothing runs; `start` after `end` wraps past midnight, equal means all day. */
+export interface ExcludeWindow {
+  /** Weekdays the window starts on, 0 (Sunday) to 6; every day when unset or empty. */
+  days?: number[];
+  /** `HH:MM` */
+  start: string;
+  end: string;
+}
+
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+const DATE_PATTERN = /^(?:(\d{4})-)?(\d{2})-(\d{2})$/;
+// Longest `from..to` range accepted in exclude_dates or a calendar event.
+const MAX_RANGE_DAYS = 366;
+const DAY_MS = 86_400_000;
+
+export function parseClockMinutes(value: string): number | null {
+  const match = value.match(/^([01]\d|2[0-3]):([0-5]\d)$/);
+  if (!match) return null;
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/** Whether `at` falls inside any of the windows, read in the given zone. */
+export function isInExcludeWindow(windows: ExcludeWindow[], timezone: TimezoneSpec, at: Date): boolean {
+  if (!Array.isArray(windows) || windows.length === 0) return false;
+  const local = getDayAndMinuteInTimezone(at, timezone);
+
+  for (const window of windows) {
+    const start = parseClockMinutes(window.start);
+    const end = parseClockMinutes(window.end);
+    if (start == null || end == null) continue;
+    const days = Array.isArray(window.days) && window.days.length > 0 ? window.days : ALL_DAYS;
+    const sameDay = start < end;
+
+    if (sameDay) {
+      if (days.includes(local.day) && local.minute >= start && local.minute < end) return true;
+      continue;
+    }
+
+    if (start === end) {
+      if (days.includes(local.day)) return true;
+      continue;
+    }
+
+    if (local.minute >= start && days.includes(local.day)) return true;
+    const previousDay = (local.day + 6) % 7;
+    if (local.minute < end && days.includes(previousDay)) return true;
+  }
+
+  return false;
+}
+
+function pad2(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+function formatUtcDate(ms: number): string {
+  const d = new Date(ms);
+  return `${d.getUTCFullYear()}-${pad2(d.getUTCMonth() + 1)}-${pad2(d.getUTCDate())}`;
+}
+
+/** Whether `at`'s local date is one of `dates` (`YYYY-MM-DD`, or `MM-DD` for every year). */
+export function isExcludedDate(dates: string[], timezone: TimezoneSpec, at: Date): boolean {
+  if (dates.length === 0) return false;
+  const local = formatUtcDate(shiftDateToOffset(at, resolveOffsetMinutesAt(timezone, at)).getTime());
+  return dates.includes(local) || dates.includes(local.slice(5));
+}
+
+/** Epoch ms of a `YYYY-MM-DD` (or, with a leap year, `MM-DD`) date at UTC midnight; null if no such day. */
+function parseDateMs(raw: string): number | null {
+  const match = raw.match(DATE_PATTERN);
+  if (!match) return null;
+  const year = match[1] ? Number(match[1]) : 2000;
+  const month = Number(match[2]);
+  const day = Number(match[3]);
+  const ms = Date.UTC(year, month - 1, day);
+  const d = new Date(ms);
+  return d.getUTCMonth() === month - 1 && d.getUTCDate() === day ? ms : null;
+}
+
+function expandRange(fromMs: number, toMs: number): string[] | null {
+  if (toMs < fromMs || (toMs - fromMs) / DAY_MS >= MAX_RANGE_DAYS) return null;
+  const out: string[] = [];
+  for (let ms = fromMs; ms <= toMs; ms += DAY_MS) out.push(formatUtcDate(ms));
+  return out;
+}
+
+/**
+ * Parse one excluded date: `2026-12-24`, `12-25` (every year) or a range
+ * `2026-12-24..2026-12-31` expanded to its days. Null if malformed.
+ */
+export function parseExcludedDates(raw: string): string[] | null {
+  const [from, to, ...rest] = raw.trim().split("..").map((part) => part.trim());
+  if (rest.length > 0) return null;
+  const fromMs = parseDateMs(from);
+  if (fromMs === null) return null;
+  if (to === undefined) return [from];
+  const toMs = parseDateMs(to);
+  // Ranges need full dates on both ends.
+  if (toMs === null || from.length !== 10 || to.length !== 10) return null;
+  return expandRange(fromMs, toMs);
+}
+
+/** `20261225` or `20261225T090000Z` → `2026-12-25`. */
+function icsDate(value: string): string | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T\d{6}Z?)?$/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+/**
+ * Dates of an iCalendar file: every VEVENT's days (DTEND is exclusive for
+ * all-day events), or `MM-DD` for an event repeating `FREQ=YEARLY`.
+ */
+function parseIcs(text: string): string[] {
+  const lines = text.replace(/\r\n/g, "\n").replace(/\n[ \t]/g, "").split("\n");
+  const out: string[] = [];
+  let event: Record<string, string> | null = null;
+
+  for (const line of lines) {
+    if (line === "BEGIN:VEVENT") {
+      event = {};
+      continue;
+    }
+    if (line === "END:VEVENT" && event) {
+      const start = icsDate(event.DTSTART ?? "");
+      if (!start) throw new Error(`Invalid DTSTART "${event.DTSTART ?? ""}" in calendar`);
+      if (/^FREQ=YEARLY(;INTERVAL=1)?$/i.test(event.RRULE ?? "")) {
+        out.push(start.slice(5));
+      } else {
+        const end = icsDate(event.DTEND ?? "");
+        const days = end && end > start && /^\d{8}$/.test(event.DTEND)
+          ? expandRange(parseDateMs(start)!, parseDateMs(end)! - DAY_MS)
+          : [start];
+        if (!days) throw new Error(`Event starting ${start} is longer than ${MAX_RANGE_DAYS} days`);
+        out.push(...days);
+      }
+      event = null;
+      continue;
+    }
+    if (!event) continue;
+    const colon = line.indexOf(":");
+    if (colon < 0) continue;
+    // `DTSTART;VALUE=DATE:20261225` → DTSTART
+    const name = line.slice(0, colon).split(";")[0].toUpperCase();
+    event[name] = line.slice(colon + 1).trim();
+  }
+  return out;
+}
+
+/** Dates of a JSON calendar: an array (or `{ "holidays": [...] }`) of date strings or `{ "date": ... }` objects. */
+function parseJsonCalendar(text: string): string[] {
+  const raw = JSON.parse(text);
+  const items = Array.isArray(raw) ? raw : Array.isArray(raw?.holidays) ? raw.holidays : null;
+  if (!items) throw new Error(`Expected an array of dates or { "holidays": [...] }`);
+  const out: string[] = [];
+  for (const item of items) {
+    const value = typeof item === "string" ? item : typeof item?.date === "string" ? item.date : "";
+    const dates = parseExcludedDates(value);
+    if (!dates) throw new Error(`Invalid date ${JSON.stringify(item)} in calendar`);
+    out.push(...dates);
+  }
+  return out;
+}
+
+// Parsed calendars by absolute path; re-read when the file changes.
+const calendarCache = new Map<string, { mtimeMs: number; dates: string[] }>();
+
+/**
+ * The dates of a local holiday calendar (`.ics`, or `.json`), relative to the
+ * project root. Throws if the file is missing or malformed.
+ */
+export async function loadHolidayCalendar(path: string): Promise<string[]> {
+  const file = isAbsolute(path) ? path : join(process.cwd(), path);
+  let mtimeMs: number;
+  try {
+    mtimeMs = (await stat(file)).mtimeMs;
+  } catch {
+    throw new Error(`Holiday calendar not found: ${path}`);
+  }
+  const cached = calendarCache.get(file);
+  if (cached && cached.mtimeMs === mtimeMs) return cached.dates;
+
+  const text = await Bun.file(file).text();
+  let dates: string[];
+  try {
+    dates = extname(file).toLowerCase() === ".json" ? parseJsonCalendar(text) : parseIcs(text);
+  } catch (err) {
+    throw new Error(`Holiday calendar ${path}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  calendarCache.set(file, { mtimeMs, dates });
+  return dates;
+}
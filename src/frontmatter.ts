@@ -0,0 +1,361 @@
+/**
+ * The YAML subset used by job frontmatter: `key: value` mappings (nested by
+ * indentation), block (`- item`) and flow (`[a, b]`, `{k: v}`) collections,
+ * quoted and plain scalars, `|` / `>` block scalars and `#` comments.
+ * Scalars stay strings; callers decide what `3`, `true` or `2h` mean.
+ * Anchors, aliases, tags and multi-document streams are not supported.
+ */
+
+export type FrontmatterValue = string | null | FrontmatterValue[] | { [key: string]: FrontmatterValue };
+
+export interface FrontmatterEntry {
+  key: string;
+  value: FrontmatterValue;
+  /** File line of the key. */
+  line: number;
+  /** Last file line belonging to the value (same as `line` for inline values). */
+  endLine: number;
+}
+
+export interface FrontmatterDocument {
+  /** Top-level keys in file order. */
+  entries: FrontmatterEntry[];
+  body: string;
+}
+
+/** A frontmatter syntax or validation problem, pinned to a file line. */
+export class FrontmatterError extends Error {
+  readonly line: number;
+
+  constructor(message: string, line: number) {
+    super(`line ${line}: ${message}`);
+    this.name = "FrontmatterError";
+    this.line = line;
+  }
+}
+
+const FRONTMATTER_PATTERN = /^---[ \t]*\n(?:([\s\S]*?)\n)?---[ \t]*(?:\n([\s\S]*))?$/;
+const KEY_PATTERN = /^([A-Za-z0-9_][\w.-]*)[ \t]*:(?:[ \t]+(.*))?$/;
+const BLOCK_SCALAR_PATTERN = /^([|>])([+-]?)[ \t]*(?:#.*)?$/;
+
+/** Split `---` frontmatter from the body; null if the file doesn't start with one. */
+export function splitFrontmatter(content: string): { frontmatter: string; body: string } | null {
+  const match = content.replace(/\r\n/g, "\n").match(FRONTMATTER_PATTERN);
+  if (!match) return null;
+  return { frontmatter: match[1] ?? "", body: match[2] ?? "" };
+}
+
+/** Parse a whole job file. Throws FrontmatterError; line numbers count from the opening `---`. */
+export function parseFrontmatterDocument(content: string): FrontmatterDocument {
+  const split = splitFrontmatter(content);
+  if (!split) throw new FrontmatterError("expected frontmatter between --- lines", 1);
+  return { entries: parseFrontmatter(split.frontmatter, 2), body: split.body };
+}
+
+/** Parse frontmatter text whose first line is file line `firstLine`. */
+export function parseFrontmatter(source: string, firstLine = 1): FrontmatterEntry[] {
+  const lines = source.split("\n");
+  let pos = 0;
+  let lastContentLine = firstLine - 1;
+
+  const lineNo = (index: number) => firstLine + index;
+  const isBlank = (text: string) => {
+    const trimmed = text.trim();
+    return trimmed === "" || trimmed.startsWith("#");
+  };
+  const isSequenceItem = (text: string) => text === "-" || text.startsWith("- ");
+
+  function skipBlank() {
+    while (pos < lines.length && isBlank(lines[pos])) pos++;
+  }
+
+  function indentAt(index: number): number {
+    const indent = lines[index].match(/^[ \t]*/)![0];
+    if (indent.includes("\t")) throw new FrontmatterError("tabs are not allowed in indentation", lineNo(index));
+    return indent.length;
+  }
+
+  function parseMapping(indent: number): FrontmatterEntry[] {
+    const entries: FrontmatterEntry[] = [];
+    while (true) {
+      skipBlank();
+      if (pos >= lines.length) break;
+      const lineIndent = indentAt(pos);
+      if (lineIndent < indent) break;
+      const line = lineNo(pos);
+      if (lineIndent > indent) throw new FrontmatterError("unexpected indentation", line);
+      const text = lines[pos].slice(lineIndent);
+      if (isSequenceItem(text)) throw new FrontmatterError("expected `key: value`, found a list item", line);
+      const match = text.match(KEY_PATTERN);
+      if (!match) throw new FrontmatterError(`expected \`key: value\`, found "${text.trim()}"`, line);
+      const key = match[1];
+      if (entries.some((e) => e.key === key)) throw new FrontmatterError(`duplicate key "${key}"`, line);
+
+      pos++;
+      lastContentLine = line;
+      const value = parseValueAfterKey(match[2] ?? "", indent, line);
+      entries.push({ key, value, line, endLine: lastContentLine });
+    }
+    return entries;
+  }
+
+  function parseSequence(indent: number): FrontmatterValue[] {
+    const items: FrontmatterValue[] = [];
+    while (true) {
+      skipBlank();
+      if (pos >= lines.length) break;
+      const lineIndent = indentAt(pos);
+      if (lineIndent < indent) break;
+      const line = lineNo(pos);
+      if (lineIndent > indent) throw new FrontmatterError("unexpected indentation", line);
+      const text = lines[pos].slice(lineIndent);
+      if (!isSequenceItem(text)) break;
+
+      const rest = text.slice(1).trimStart();
+      if (KEY_PATTERN.test(rest) && !/^["'[{]/.test(rest)) {
+        // `- key: value` opens a mapping aligned with `key`; re-read this line as its first entry.
+        const column = lineIndent + (text.length - rest.length);
+        lines[pos] = " ".repeat(column) + rest;
+        items.push(toObject(parseMapping(column)));
+        continue;
+      }
+      pos++;
+      lastContentLine = line;
+      items.push(rest === "" || rest.startsWith("#") ? parseNested(indent, false) : parseInline(rest, line));
+    }
+    return items;
+  }
+
+  /** The block under a key or `-` whose own line had no value. */
+  function parseNested(parentIndent: number, allowSameIndentList: boolean): FrontmatterValue {
+    skipBlank();
+    if (pos >= lines.length) return null;
+    const indent = indentAt(pos);
+    const text = lines[pos].slice(indent);
+    if (indent > parentIndent) {
+      return isSequenceItem(text) ? parseSequence(indent) : toObject(parseMapping(indent));
+    }
+    // YAML lets a key's list sit at the key's own indentation.
+    if (allowSameIndentList && indent === parentIndent && isSequenceItem(text)) return parseSequence(indent);
+    return null;
+  }
+
+  function parseValueAfterKey(rest: string, indent: number, line: number): FrontmatterValue {
+    const trimmed = rest.trim();
+    if (trimmed === "" || trimmed.startsWith("#")) return parseNested(indent, true);
+    const block = trimmed.match(BLOCK_SCALAR_PATTERN);
+    if (block) return parseBlockScalar(block[1] as "|" | ">", block[2], indent);
+    return parseInline(trimmed, line);
+  }
+
+  function parseBlockScalar(style: "|" | ">", chomp: string, parentIndent: number): string {
+    const collected: string[] = [];
+    let contentIndent: number | null = null;
+    while (pos < lines.length) {
+      const raw = lines[pos];
+      if (raw.trim() === "") {
+        collected.push("");
+        pos++;
+        continue;
+      }
+      const indent = indentAt(pos);
+      if (indent <= parentIndent) break;
+      contentIndent ??= indent;
+      if (indent < contentIndent) throw new FrontmatterError("block scalar line is less indented than its first line", lineNo(pos));
+      collected.push(raw.slice(contentIndent));
+      lastContentLine = lineNo(pos);
+      pos++;
+    }
+
+    // Trailing blank lines belong to the next key, except under `+` chomping.
+    let trailing = 0;
+    while (collected.length > 0 && collected[collected.length - 1] === "") {
+      collected.pop();
+      trailing++;
+    }
+    let text = "";
+    if (style === "|") {
+      text = collected.join("\n");
+    } else {
+      // Folded: lines join with spaces, blank lines become newlines.
+      for (const l of collected) text += l === "" ? "\n" : text === "" || text.endsWith("\n") ? l : ` ${l}`;
+    }
+    if (text === "") return "";
+    if (chomp === "-") return text;
+    if (chomp === "+") return text + "\n".repeat(trailing + 1);
+    return text + "\n";
+  }
+
+  return parseMapping(0);
+}
+
+function toObject(entries: FrontmatterEntry[]): { [key: string]: FrontmatterValue } {
+  const out: { [key: string]: FrontmatterValue } = {};
+  for (const e of entries) out[e.key] = e.value;
+  return out;
+}
+
+/** A value written on the key's own line: a scalar or a flow collection. */
+function parseInline(text: string, line: number): FrontmatterValue {
+  let i = 0;
+
+  const fail = (message: string): never => {
+    throw new FrontmatterError(message, line);
+  };
+  const skipSpaces = () => {
+    while (i < text.length && (text[i] === " " || text[i] === "\t")) i++;
+  };
+
+  function parseQuoted(): string {
+    const quote = text[i++];
+    let out = "";
+    while (i < text.length) {
+      const ch = text[i++];
+      if (quote === "'" && ch === "'") {
+        if (text[i] === "'") {
+          out += "'";
+          i++;
+          continue;
+        }
+        return out;
+      }
+      if (quote === '"' && ch === '"') return out;
+      if (quote === '"' && ch === "\\") {
+        const esc = text[i++];
+        const escapes: Record<string, string> = { n: "\n", t: "\t", r: "\r", '"': '"', "\\": "\\", "/": "/", "0": "\0" };
+        if (esc === undefined || !(esc in escapes)) fail(`unknown escape "\\${esc ?? ""}" in quoted string`);
+        out += escapes[esc];
+        continue;
+      }
+      out += ch;
+    }
+    return fail("unterminated quoted string");
+  }
+
+  function parsePlain(inFlow: boolean): FrontmatterValue {
+    const start = i;
+    while (i < text.length) {
+      const ch = text[i];
+      if (ch === "#" && i > start && /\s/.test(text[i - 1])) break;
+      if (inFlow && (ch === "," || ch === "]" || ch === "}")) break;
+      i++;
+    }
+    const value = text.slice(start, i).trim();
+    return value === "" || value === "~" || value === "null" ? null : value;
+  }
+
+  function parseFlowSequence(): FrontmatterValue[] {
+    i++;
+    const items: FrontmatterValue[] = [];
+    skipSpaces();
+    if (text[i] === "]") {
+      i++;
+      return items;
+    }
+    while (true) {
+      skipSpaces();
+      items.push(parseValue(true));
+      skipSpaces();
+      if (text[i] === ",") {
+        i++;
+        continue;
+      }
+      if (text[i] === "]") {
+        i++;
+        return items;
+      }
+      return fail("expected , or ] in list");
+    }
+  }
+
+  function parseFlowMapping(): { [key: string]: FrontmatterValue } {
+    i++;
+    const out: { [key: string]: FrontmatterValue } = {};
+    skipSpaces();
+    if (text[i] === "}") {
+      i++;
+      return out;
+    }
+    while (true) {
+      skipSpaces();
+      const keyMatch = text.slice(i).match(/^([A-Za-z0-9_][\w.-]*)[ \t]*:/);
+      if (!keyMatch) fail("expected key: value in mapping");
+      const key = keyMatch![1];
+      if (key in out) fail(`duplicate key "${key}"`);
+      i += keyMatch![0].length;
+      skipSpaces();
+      out[key] = parseValue(true);
+      skipSpaces();
+      if (text[i] === ",") {
+        i++;
+        continue;
+      }
+      if (text[i] === "}") {
+        i++;
+        return out;
+      }
+      return fail("expected , or } in mapping");
+    }
+  }
+
+  function parseValue(inFlow: boolean): FrontmatterValue {
+    const ch = text[i];
+    if (ch === '"' || ch === "'") return parseQuoted();
+    if (ch === "[") return parseFlowSequence();
+    if (ch === "{") return parseFlowMapping();
+    return parsePlain(inFlow);
+  }
+
+  const value = parseValue(false);
+  skipSpaces();
+  if (i < text.length && text[i] !== "#") fail(`unexpected "${text.slice(i)}" after value`);
+  return value;
+}
+
+/** Write a string as a YAML scalar, quoting only when a plain one would read differently. */
+export function formatFrontmatterScalar(value: string): string {
+  const needsQuotes =
+    value === "" ||
+    value !== value.trim() ||
+    /^[-?:,[\]{}#&*!|>'"%@`~]/.test(value) ||
+    /: |\s#|[\n\t]/.test(value) ||
+    value.endsWith(":") ||
+    value === "null";
+  return needsQuotes ? JSON.stringify(value) : value;
+}
+
+/**
+ * Set (string or list) or remove (null) top-level keys of a job file. A key
+ * that is already set is rewritten in place, new keys go last, and everything
+ * else — unknown keys, comments, ordering, the body — is kept as written.
+ */
+export function setFrontmatterKeys(content: string, updates: Record<string, string | string[] | null>): string {
+  const normalized = content.replace(/\r\n/g, "\n");
+  const doc = parseFrontmatterDocument(normalized);
+  const fileLines = normalized.split("\n");
+  const closing = fileLines.findIndex((l, idx) => idx > 0 && /^---[ \t]*$/.test(l));
+
+  const formatEntry = (key: string, value: string | string[]) =>
+    Array.isArray(value)
+      ? `${key}: [${value.map(formatFrontmatterScalar).join(", ")}]`
+      : `${key}: ${formatFrontmatterScalar(value)}`;
+
+  // File line -> replacement lines for the spans of updated keys.
+  const replaced = new Map<number, string[]>();
+  for (const entry of doc.entries) {
+    if (!(entry.key in updates)) continue;
+    const value = updates[entry.key];
+    replaced.set(entry.line, value === null ? [] : [formatEntry(entry.key, value)]);
+    for (let line = entry.line + 1; line <= entry.endLine; line++) replaced.set(line, []);
+  }
+
+  const lines: string[] = [];
+  for (let idx = 1; idx < closing; idx++) lines.push(...(replaced.get(idx + 1) ?? [fileLines[idx]]));
+  while (lines.length > 0 && lines[lines.length - 1].trim() === "") lines.pop();
+  for (const [key, value] of Object.entries(updates)) {
+    if (value !== null && !doc.entries.some((e) => e.key === key)) lines.push(formatEntry(key, value));
+  }
+
+  const body = doc.body.trim();
+  return `---\n${lines.length > 0 ? `${lines.join("\n")}\n` : ""}---\n${body}\n`;
+}
@@ -0,0 +1,45 @@
+import type { RunClassification, RunResult } from "./runner";
+
+export const DEFAULT_OK_REPLIES = ["HEARTBEAT_OK"];
+
+// Markdown a model tends to wrap a bare sentinel in: **HEARTBEAT_OK**, `HEARTBEAT_OK`, "HEARTBEAT_OK".
+const WRAPPING = /^[\s*_`"'>~]+|[\s*_`"'.!~]+$/g;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** The reply with a leading or trailing sentinel removed; the reply unchanged when it has none. */
+function stripOkReply(text: string, okReplies: string[]): string {
+  let out = text;
+  for (const reply of okReplies) {
+    const token = escapeRegExp(reply);
+    out = out
+      .replace(new RegExp(`^[\\s*_\`"'>~]*${token}(?!\\w)[\\s*_\`"'.!~]*`, "i"), "")
+      .replace(new RegExp(`(?<!\\w)[\\s*_\`"'~]*${token}[\\s*_\`"'.!~]*$`, "i"), "");
+  }
+  return out.trim();
+}
+
+/**
+ * Sort a heartbeat result into nothing to report (`ok`, suppressed), something
+ * for the user (`notify`, with any sentinel stripped) or a failed run
+ * (`error`). A reply that is only a sentinel (`okReplies`, matched case- and
+ * markdown-insensitively) or empty is `ok`; a cancelled run is an error nobody
+ * needs to be told about.
+ */
+export function classifyHeartbeatResult(result: RunResult, okReplies: string[]): RunClassification {
+  if (result.exitCode !== 0 || result.rateLimited || result.timedOut || result.cancelled) {
+    return { outcome: "error", suppressed: Boolean(result.cancelled) };
+  }
+  const text = result.stdout.trim();
+  if (!text.replace(WRAPPING, "")) return { outcome: "ok", suppressed: true };
+  const message = stripOkReply(text, okReplies);
+  if (!message.replace(WRAPPING, "")) return { outcome: "ok", suppressed: true };
+  return message === text ? { outcome: "notify", suppressed: false } : { outcome: "notify", suppressed: false, message };
+}
+
+/** Name a heartbeat's runs go by in logs and run history: `heartbeat` for the main one, `heartbeat-<name>` for the others. */
+export function heartbeatRunName(name: string): string {
+  return name === "heartbeat" ? name : `heartbeat-${name}`;
+}
@@ -0,0 +1,84 @@
+import { getSettingsTimezone, type Settings } from "./config";
+import { formatDuration } from "./duration";
+import { inspectJobs, type Job, type JobFileReport } from "./jobs";
+import { DEFAULT_RETRY_DELAY_MS, DEFAULT_RETRY_ON } from "./job-runner";
+import { formatLocalDateTimeValue, formatSchedule } from "./schedule";
+import { formatUtcOffsetLabel } from "./timezone";
+
+export interface JobDiagnostics {
+  loaded: number;
+  rejected: number;
+  inert: number;
+  files: Array<Omit<JobFileReport, "job"> & { options?: Record<string, string> }>;
+}
+
+/** The options a run of the job actually uses, defaults included, as display strings in frontmatter terms. */
+export function describeJobOptions(job: Job, settings: Settings): Record<string, string> {
+  const options: Record<string, string> = {};
+  const timezone = job.timezone ?? getSettingsTimezone(settings);
+  const timeoutMs = job.timeoutMs ?? settings.runTimeoutMinutes * 60_000;
+
+  options.schedule = formatSchedule(job);
+  options.timezone = typeof timezone === "number" ? formatUtcOffsetLabel(timezone) : timezone;
+  options.status = !job.enabled ? "paused"
+    : job.pausedUntil ? `paused until ${formatLocalDateTimeValue(job.pausedUntil)}`
+    : "enabled";
+  if (job.type === "maintenance") {
+    options.type = "maintenance";
+    options.command = job.command!;
+  } else {
+    options.session_group = job.sessionGroup ?? "none (stateless)";
+    options.model = job.model || settings.model || "default";
+    if (job.tools) options.tools = job.tools;
+    if (job.settingSources) options.setting_sources = job.settingSources;
+    if (job.effort) options.effort = job.effort;
+    if (job.maxTurns) options.max_turns = String(job.maxTurns);
+  }
+  options.recurring = String(job.recurring);
+  options.notify = String(job.notify);
+  options.catch_up = job.catchUp ?? "none";
+  options.concurrency = job.concurrency ?? "allow";
+  options.timeout = timeoutMs > 0 ? formatDuration(timeoutMs) : "none";
+  options.retries = job.retries
+    ? `${job.retries} (first after ${formatDuration(job.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS)}, on ${(job.retryOn ?? DEFAULT_RETRY_ON).join(", ")})`
+    : "0";
+  if (job.when) options.when = job.when;
+  if (job.upstream) options.after = job.upstream.join(", ");
+  if (job.onSuccess) options.on_success = job.onSuccess.join(", ");
+  if (job.excludeWindows) {
+    options.exclude_windows = job.excludeWindows.map((w) => `${w.start}-${w.end}${w.days ? ` (days ${w.days.join(",")})` : ""}`).join(", ");
+  }
+  if (job.excludeDates) options.exclude_dates = `${job.excludeDates.length} date(s)`;
+  return options;
+}
+
+/** Counts and per-file entries (with resolved options) for a set of load reports. */
+export function summarizeJobReports(reports: JobFileReport[], settings: Settings): JobDiagnostics {
+  return {
+    loaded: reports.filter((r) => r.status === "loaded").length,
+    rejected: reports.filter((r) => r.status === "rejected").length,
+    inert: reports.filter((r) => r.status === "inert").length,
+    files: reports.map(({ job, ...report }) => (job ? { ...report, options: describeJobOptions(job, settings) } : report)),
+  };
+}
+
+/** Validate every job file without logging: status, error and resolved options per file. */
+export async function diagnoseJobs(settings: Settings): Promise<JobDiagnostics> {
+  return summarizeJobReports((await inspectJobs()).reports, settings);
+}
+
+/** One line per file (plus its options when `verbose`), for the terminal. */
+export function formatJobDiagnostics(diagnostics: JobDiagnostics, verbose: boolean): string[] {
+  const lines: string[] = [];
+  for (const file of diagnostics.files) {
+    const mark = file.status === "loaded" ? "\x1b[32m✓\x1b[0m" : file.status === "inert" ? "\x1b[33m–\x1b[0m" : "\x1b[31m✗\x1b[0m";
+    const note = file.status === "rejected" ? `: ${file.error}`
+      : file.status === "inert" ? ": no schedule and no upstream job, never runs"
+      : "";
+    lines.push(`${mark} ${file.file}${note}`);
+    if (verbose && file.options) {
+      for (const [key, value] of Object.entries(file.options)) lines.push(`    \x1b[2m${key}: ${value}\x1b[0m`);
+    }
+  }
+  return lines;
+}
@@ -0,0 +1,76 @@
+import type { Job } from "./jobs";
+
+/**
+ * Each job's upstream jobs: the ones in its own `after:` plus every job that
+ * names it in `on_success:`. Both spellings describe the same edge.
+ */
+export function resolveUpstream(jobs: Job[]): Map<string, string[]> {
+  const upstream = new Map<string, string[]>();
+  const link = (from: string, to: string) => {
+    const list = upstream.get(to) ?? [];
+    if (!list.includes(from)) upstream.set(to, [...list, from]);
+  };
+  for (const job of jobs) {
+    for (const name of job.after ?? []) link(name, job.name);
+    for (const name of job.onSuccess ?? []) link(job.name, name);
+  }
+  return upstream;
+}
+
+/** Every dependency cycle, each as a path in run order that ends where it starts. */
+export function findCycles(upstream: Map<string, string[]>): string[][] {
+  const visited = new Map<string, "open" | "done">();
+  const path: string[] = [];
+  const cycles: string[][] = [];
+
+  function visit(name: string) {
+    visited.set(name, "open");
+    path.push(name);
+    for (const previous of upstream.get(name) ?? []) {
+      const state = visited.get(previous);
+      if (state === "open") cycles.push([...path.slice(path.indexOf(previous)), previous].reverse());
+      else if (!state) visit(previous);
+    }
+    path.pop();
+    visited.set(name, "done");
+  }
+
+  for (const name of [...upstream.keys()].sort()) {
+    if (!visited.has(name)) visit(name);
+  }
+  return cycles;
+}
+
+export interface ChainRun {
+  job: Job;
+  /** Output of each upstream run that led here, by job name. */
+  upstreamOutputs: Map<string, string>;
+}
+
+/**
+ * Fan-in for chains: a job with several upstream jobs runs once each of them
+ * has succeeded since its last chained run. Progress is kept in memory only,
+ * so a restart starts every join over.
+ */
+export function createChainTracker() {
+  const pending = new Map<string, Map<string, string>>();
+
+  return {
+    /** Note that `upstream` succeeded; returns the jobs now ready to run. */
+    recordSuccess(upstream: string, output: string, jobs: Job[]): ChainRun[] {
+      const ready: ChainRun[] = [];
+      for (const job of jobs) {
+        if (!job.upstream?.includes(upstream)) continue;
+        const outputs = pending.get(job.name) ?? new Map<string, string>();
+        outputs.set(upstream, output);
+        if (job.upstream.every((name) => outputs.has(name))) {
+          pending.delete(job.name);
+          ready.push({ job, upstreamOutputs: outputs });
+        } else {
+          pending.set(job.name, outputs);
+        }
+      }
+      return ready;
+    },
+  };
+}
@@ -0,0 +1,294 @@
+import { recordFailedRun, recordSkippedRun, run, type RunOptions, type RunResult } from "./runner";
+import { runMaintenance, runShellCommand } from "./maintenance";
+import { getSettings, resolvePrompt } from "./config";
+import { formatDuration } from "./duration";
+import { getLastOutput, listRunsSince, type RunRecord } from "./run-history";
+import { formatSchedule } from "./schedule";
+import { renderTemplate } from "./template";
+import { getJobTimezone, type Job, type RetryReason } from "./jobs";
+
+export const DEFAULT_RETRY_DELAY_MS = 60_000;
+const MAX_RETRY_DELAY_MS = 60 * 60_000;
+export const DEFAULT_RETRY_ON: RetryReason[] = ["error", "rate_limit", "timeout"];
+const TIMEOUT_PATTERN = /\b(?:timed out|timeout|ETIMEDOUT|deadline exceeded)\b/i;
+// `concurrency: queue` keeps at most this many occurrences waiting behind a running one.
+const MAX_QUEUED_PER_JOB = 5;
+const PRECHECK_TIMEOUT_MS = 60_000;
+// `{{when_output}}` is for context, not bulk data; longer output is cut from the front.
+const MAX_WHEN_OUTPUT_CHARS = 20_000;
+
+interface JobInstance {
+  controller: AbortController;
+  done: Promise<void>;
+}
+
+// Occurrences of each job that have fired and not finished (queued, running or backing off).
+const jobInstances = new Map<string, JobInstance[]>();
+
+type JobFinishedListener = (job: Job, result: RunResult) => void;
+const finishedListeners = new Set<JobFinishedListener>();
+
+export interface ExecuteJobOptions {
+  /** Outputs of the upstream runs that started this one, by job name. */
+  upstreamOutputs?: Map<string, string>;
+}
+
+/** RunOptions for a scheduled prompt job; every trigger builds them the same way. */
+export function buildJobRunOptions(job: Job, trigger: string): RunOptions {
+  const options: RunOptions = { trigger };
+  if (job.sessionGroup) options.sessionGroup = job.sessionGroup;
+  if (job.model) options.model = job.model;
+  if (job.tools) options.tools = job.tools;
+  if (job.settingSources) options.settingSources = job.settingSources;
+  if (job.effort) options.effort = job.effort;
+  if (job.maxTurns) options.maxTurns = job.maxTurns;
+  if (job.timeoutMs !== undefined) options.timeoutMs = job.timeoutMs;
+  if (!job.sessionGroup) options.noSessionPersistence = true;
+  return options;
+}
+
+/** Why a run failed, in `retry_on` terms, or null if it succeeded. */
+export function classifyFailure(result: RunResult): RetryReason | null {
+  if (result.timedOut) return "timeout";
+  if (result.rateLimited) return "rate_limit";
+  if (result.exitCode === 0) return null;
+  if (TIMEOUT_PATTERN.test(result.stderr)) return "timeout";
+  return "error";
+}
+
+/** Exponential backoff from `retry_delay`, with jitter so retries don't line up. */
+export function getRetryDelayMs(job: Job, retryNumber: number): number {
+  const base = job.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+  const exponential = Math.min(base * 2 ** (retryNumber - 1), MAX_RETRY_DELAY_MS);
+  return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+}
+
+/**
+ * Run a job's prompt, retrying failures its `retry_on` policy covers. Between
+ * attempts the group queue is released, so other runs aren't blocked by the
+ * backoff. A cancelled run is never retried. Resolves with the last attempt's result.
+ */
+export async function runJob(job: Job, prompt: string, options: RunOptions): Promise<RunResult> {
+  const maxAttempts = (job.retries ?? 0) + 1;
+  const retryOn = job.retryOn ?? DEFAULT_RETRY_ON;
+
+  for (let attempt = 1; ; attempt++) {
+    const result = await run(job.name, prompt, maxAttempts > 1 ? { ...options, attempt, maxAttempts } : options);
+    if (result.cancelled) return result;
+    const reason = classifyFailure(result);
+    if (!reason || attempt >= maxAttempts || !retryOn.includes(reason)) return result;
+
+    const delay = getRetryDelayMs(job, attempt);
+    console.warn(
+      `[${new Date().toLocaleTimeString()}] Job ${job.name} attempt ${attempt}/${maxAttempts} failed (${reason}); retrying in ${formatDuration(delay)}`
+    );
+    await sleep(delay, options.signal);
+    if (options.signal?.aborted) return { ...result, cancelled: true };
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+/**
+ * Start one occurrence of a job under its `concurrency` policy, tracked per
+ * job name: `allow` runs it regardless, `skip` drops it while an earlier one
+ * is unfinished, `queue` waits for the earlier ones, and `replace` cancels
+ * them first. Skipped occurrences are written to the run history and
+ * resolve to null.
+ */
+export async function runWithConcurrency<T>(
+  job: Job,
+  trigger: string,
+  execute: (signal: AbortSignal) => Promise<T>
+): Promise<T | null> {
+  const policy = job.concurrency ?? "allow";
+  const running = jobInstances.get(job.name) ?? [];
+
+  if (running.length > 0) {
+    if (policy === "skip") {
+      await recordSkippedRun(job.name, "previous run still in progress", trigger, job.sessionGroup);
+      return null;
+    }
+    if (policy === "queue" && running.length > MAX_QUEUED_PER_JOB) {
+      await recordSkippedRun(job.name, `${MAX_QUEUED_PER_JOB} runs already queued`, trigger, job.sessionGroup);
+      return null;
+    }
+    if (policy === "replace") {
+      console.log(`[${new Date().toLocaleTimeString()}] Replacing unfinished run of ${job.name}`);
+      for (const instance of running) instance.controller.abort();
+    }
+  }
+
+  const previous = policy === "queue" ? running[running.length - 1]?.done : undefined;
+  const controller = new AbortController();
+  const done = (async () => {
+    if (previous) await previous;
+    return execute(controller.signal);
+  })();
+  const instance: JobInstance = { controller, done: done.then(() => {}, () => {}) };
+  jobInstances.set(job.name, [...running, instance]);
+
+  try {
+    return await done;
+  } finally {
+    const remaining = (jobInstances.get(job.name) ?? []).filter((i) => i !== instance);
+    if (remaining.length > 0) jobInstances.set(job.name, remaining);
+    else jobInstances.delete(job.name);
+  }
+}
+
+/**
+ * Run a job's `when:` command. Exit 0 lets the run go ahead with the command's
+ * stdout; anything else (or a timeout) skips it, with the reason.
+ */
+async function runPrecheck(job: Job, signal?: AbortSignal): Promise<{ output: string } | { skip: string }> {
+  console.log(`[${new Date().toLocaleTimeString()}] Precheck: ${job.name} (${job.when})`);
+  const r = await runShellCommand(job.when!, { signal, timeoutMs: PRECHECK_TIMEOUT_MS });
+  if (r.timedOut) return { skip: `when: timed out after ${formatDuration(PRECHECK_TIMEOUT_MS)}` };
+  if (r.exitCode !== 0) {
+    const detail = (r.stderr.trim() || r.stdout.trim()).split("\n")[0];
+    return { skip: `when: exited ${r.exitCode}${detail ? ` (${detail.slice(0, 200)})` : ""}` };
+  }
+  const output = r.stdout.trim();
+  return { output: output.length > MAX_WHEN_OUTPUT_CHARS ? output.slice(-MAX_WHEN_OUTPUT_CHARS) : output };
+}
+
+/** Be told about every occurrence this process finishes, whatever started it; returns an unsubscribe function. */
+export function onJobFinished(listener: JobFinishedListener): () => void {
+  finishedListeners.add(listener);
+  return () => finishedListeners.delete(listener);
+}
+
+/**
+ * One occurrence of a job: its `when:` precheck if any, then the shell command
+ * of a maintenance job (its triage summary, if any, comes back as stderr),
+ * otherwise the prompt with retries.
+ */
+export async function executeJob(
+  job: Job,
+  trigger: string,
+  signal?: AbortSignal,
+  options: ExecuteJobOptions = {}
+): Promise<RunResult> {
+  const result = await executeOccurrence(job, trigger, signal, options);
+  for (const listener of finishedListeners) {
+    try {
+      listener(job, result);
+    } catch (err) {
+      console.error(`[${new Date().toLocaleTimeString()}] Job listener failed for ${job.name}:`, err);
+    }
+  }
+  return result;
+}
+
+async function executeOccurrence(job: Job, trigger: string, signal: AbortSignal | undefined, options: ExecuteJobOptions): Promise<RunResult> {
+  let whenOutput: string | undefined;
+  if (job.when) {
+    const check = await runPrecheck(job, signal);
+    if (signal?.aborted) return { stdout: "", stderr: "", exitCode: 1, cancelled: true };
+    if ("skip" in check) {
+      await recordSkippedRun(job.name, check.skip, trigger, job.sessionGroup);
+      return { stdout: "", stderr: "", exitCode: 0, skipped: check.skip };
+    }
+    whenOutput = check.output;
+  }
+
+  if (job.type === "maintenance") {
+    const r = await runMaintenance({ name: job.name, command: job.command!, notify: job.notify !== false, trigger, signal });
+    const result: RunResult = { stdout: r.output, stderr: r.triage ?? "", exitCode: r.ok ? 0 : r.exitCode || 1 };
+    if (signal?.aborted) result.cancelled = true;
+    return result;
+  }
+
+  let prompt: string;
+  try {
+    prompt = await renderJobPrompt(job, { whenOutput, upstreamOutputs: options.upstreamOutputs });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    await recordFailedRun(job.name, message, trigger, job.sessionGroup);
+    return { stdout: "", stderr: message, exitCode: 1 };
+  }
+  return runJob(job, prompt, { ...buildJobRunOptions(job, trigger), ...(signal ? { signal } : {}) });
+}
+
+/**
+ * The prompt a run of this job would send: the file or text, with its template
+ * variables filled in. `whenOutput` is the stdout of the job's `when:` precheck;
+ * upstream jobs missing from `upstreamOutputs` fall back to their last success.
+ */
+export async function renderJobPrompt(
+  job: Job,
+  options: { now?: Date; whenOutput?: string; upstreamOutputs?: Map<string, string> } = {}
+): Promise<string> {
+  const now = options.now ?? new Date();
+  const upstream = job.upstream ?? [];
+  const outputOf = async (name: string) => options.upstreamOutputs?.get(name) ?? (await getLastOutput(name));
+  return renderTemplate(await resolvePrompt(job.prompt), {
+    now,
+    timezone: getJobTimezone(job, getSettings()),
+    job: {
+      name: job.name,
+      schedule: formatSchedule(job),
+      session_group: job.sessionGroup,
+      model: job.model,
+    },
+    lastOutput: () => getLastOutput(job.name),
+    upstreamOutput: upstream.length === 0 ? undefined : async (name) => {
+      if (name !== null) return upstream.includes(name) ? outputOf(name) : null;
+      if (upstream.length === 1) return outputOf(upstream[0]);
+      const sections: string[] = [];
+      for (const n of upstream) {
+        const output = await outputOf(n);
+        if (output !== null) sections.push(`## ${n}\n\n${output}`);
+      }
+      return sections.length > 0 ? sections.join("\n\n") : null;
+    },
+    vars: options.whenOutput !== undefined ? { when_output: options.whenOutput } : {},
+  });
+}
+
+/**
+ * "Run now" from the CLI, web UI or Telegram: the same options and policies as
+ * a scheduled occurrence, without touching the schedule. Null if skipped.
+ */
+export function runJobNow(job: Job): Promise<RunResult | null> {
+  return runWithConcurrency(job, "manual", (signal) => executeJob(job, "manual", signal));
+}
+
+/** A "run now" outcome as the daemon reports it to the CLI and `POST /api/jobs/:name/run?wait=1`. */
+export interface RunNowReport {
+  /** formatRunResult's text, or why the run was skipped. */
+  text: string;
+  /** The run's exit code; 1 when the concurrency policy skipped it. */
+  exitCode: number;
+  skipped: boolean;
+  /** The run's history record (its last attempt); null if it never got one. */
+  record: RunRecord | null;
+}
+
+/** Run a job now and wait for it, for callers that report the result elsewhere. */
+export async function runJobNowReport(job: Job): Promise<RunNowReport> {
+  const startedAt = Date.now();
+  const result = await runJobNow(job);
+  const record = (await listRunsSince(startedAt)).filter((r) => r.job === job.name && r.trigger === "manual").pop() ?? null;
+  if (!result) return { text: `skipped: ${record?.reason ?? "previous run still in progress"}`, exitCode: 1, skipped: true, record };
+  return { text: formatRunResult("", result), exitCode: result.exitCode, skipped: Boolean(result.skipped), record };
+}
+
+/** The text reported for a finished run (Telegram forwards, "run now" replies). */
+export function formatRunResult(label: string, result: RunResult): string {
+  const prefix = label ? `[${label}] ` : "";
+  if (result.skipped) return `${prefix}skipped: ${result.skipped}`;
+  if (result.timedOut || result.cancelled) return `${prefix}${result.timedOut ? "timed out" : "cancelled"}`;
+  return result.exitCode === 0
+    ? `${label ? `[${label}]\n` : ""}${result.stdout || "(empty)"}`
+    : `${prefix}error (exit ${result.exitCode}): ${result.stderr || "Unknown"}`;
+}
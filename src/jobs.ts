@@ -1,14 +1,39 @@
-import { readdir } from "fs/promises";
+import { readdir, stat } from "fs/promises";
 import { join } from "path";
+import { validateCron } from "./cron";
+import { getSettingsTimezone, type Settings } from "./config";
+import { normalizeTimezoneName, type TimezoneSpec } from "./timezone";
+import { parseDuration } from "./duration";
+import { FrontmatterError, parseFrontmatterDocument, setFrontmatterKeys, type FrontmatterEntry, type FrontmatterValue } from "./frontmatter";
+import { findCycles, resolveUpstream } from "./job-graph";
+import { loadHolidayCalendar, parseClockMinutes, parseExcludedDates, type ExcludeWindow } from "./exclusions";
+import {
+  formatLocalDateTimeValue,
+  parseLocalDateTime,
+  resolveLocalDateTime,
+  type JobSchedule,
+  type LocalDateTime,
+} from "./schedule";
 
 const JOBS_DIR = join(process.cwd(), ".claude", "claudeclaw", "jobs");
+const RETRY_REASONS = ["error", "rate_limit", "timeout"] as const;
+
+export type RetryReason = (typeof RETRY_REASONS)[number];
+export type ConcurrencyPolicy = "allow" | "skip" | "queue" | "replace";
 
 export interface Job {
   name: string;
-  schedule: string;
+  schedule: JobSchedule;
+  /** Bounds (inclusive); outside them the job doesn't run, so it can expire on its own. */
+  start?: LocalDateTime;
+  end?: LocalDateTime;
   prompt: string;
   recurring: boolean;
   notify: true | false | "error";
+  /** `enabled: false` pauses the job until resumed; it can still be run by hand. */
+  enabled: boolean;
+  /** Paused until this instant; the scheduler resumes the job on its own afterwards. */
+  pausedUntil?: LocalDateTime;
   // oh-my-claudeclaw extensions
   sessionGroup?: string;
   model?: string;
@@ -18,103 +43,476 @@ export interface Job {
   maxTurns?: number;
   type?: "maintenance";
   command?: string;
+  timezone?: string;
+  /** Replay policy for occurrences missed while the daemon was down. */
+  catchUp?: "none" | "once" | "all";
+  /** Extra attempts after a failed run. */
+  retries?: number;
+  /** Delay before the first retry; doubles (with jitter) for each one after. */
+  retryDelayMs?: number;
+  /** Failure kinds worth retrying; all of them when unset. */
+  retryOn?: RetryReason[];
+  /** Per-run time limit; 0 disables the global `runTimeoutMinutes`. */
+  timeoutMs?: number;
+  /** What to do when an occurrence fires while the previous one is still running. */
+  concurrency?: ConcurrencyPolicy;
+  /** Precheck shell command; the run goes ahead only if it exits 0. */
+  when?: string;
+  /** Jobs this one runs after (`after:`); with several, once all of them have succeeded. */
+  after?: string[];
+  /** Jobs to run when this one succeeds (`on_success:`). */
+  onSuccess?: string[];
+  /** Every upstream job, from `after:` here and `on_success:` elsewhere; set by loadJobs. */
+  upstream?: string[];
+  /** Times of day when occurrences are skipped, like the heartbeat's `excludeWindows`. */
+  excludeWindows?: ExcludeWindow[];
+  /** Skipped dates: `exclude_dates` plus every date in the `holidays` calendars. */
+  excludeDates?: string[];
 }
 
-function parseFrontmatterValue(raw: string): string {
-  return raw.trim().replace(/^["']|["']$/g, "");
+// Last error logged per job file, so the 30s hot-reload doesn't repeat it.
+const reportedErrors = new Map<string, string>();
+
+function reportJobError(name: string, message: string): void {
+  if (reportedErrors.get(name) === message) return;
+  reportedErrors.set(name, message);
+  console.error(`[jobs] ${name}: ${message}`);
 }
 
-function parseJobFile(name: string, content: string): Job | null {
-  const match = content.match(/^---\s*\n([\s\S]*?)\n---\s*\n([\s\S]*)$/);
-  if (!match) {
-    console.error(`Invalid job file format: ${name}`);
-    return null;
+// camelCase spellings are accepted for older job files; `daily` is the legacy `recurring`.
+const KEY_ALIASES: Record<string, string[]> = {
+  recurring: ["daily"],
+  session_group: ["sessionGroup"],
+  setting_sources: ["settingSources"],
+  max_turns: ["maxTurns"],
+  catch_up: ["catchUp"],
+  retry_delay: ["retryDelay"],
+  retry_on: ["retryOn"],
+  paused_until: ["pausedUntil"],
+  on_success: ["onSuccess"],
+  exclude_windows: ["excludeWindows"],
+  exclude_dates: ["excludeDates"],
+};
+const WEEKDAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+/** Typed access to a job file's top-level keys; every error points at the key's line. */
+function frontmatterReader(entries: FrontmatterEntry[]) {
+  const byKey = new Map(entries.map((e) => [e.key, e]));
+
+  function entry(key: string): FrontmatterEntry | undefined {
+    for (const k of [key, ...(KEY_ALIASES[key] ?? [])]) {
+      const found = byKey.get(k);
+      if (found) return found;
+    }
+    return undefined;
   }
 
-  const frontmatter = match[1];
-  const prompt = match[2].trim();
-  const lines = frontmatter.split("\n").map((l) => l.trim());
+  function fail(key: string, message: string): never {
+    throw new FrontmatterError(message, entry(key)?.line ?? 1);
+  }
 
-  const get = (key: string): string | undefined => {
-    const line = lines.find((l) => l.startsWith(`${key}:`));
-    return line ? parseFrontmatterValue(line.slice(key.length + 1)) : undefined;
-  };
+  /** The value as parsed, for nested structures; undefined when missing or empty. */
+  function value(key: string): FrontmatterValue | undefined {
+    return entry(key)?.value ?? undefined;
+  }
 
-  const schedule = get("schedule");
-  if (!schedule) return null;
+  /** A single value; undefined when missing or empty. */
+  function string(key: string): string | undefined {
+    const found = entry(key);
+    if (!found || found.value === null) return undefined;
+    if (typeof found.value !== "string") fail(key, `${found.key} must be a single value, not a list or mapping`);
+    return found.value.trim() || undefined;
+  }
 
-  const recurringRaw = (get("recurring") ?? get("daily") ?? "").toLowerCase();
-  const recurring = recurringRaw === "true" || recurringRaw === "yes" || recurringRaw === "1";
+  /** A list, written as `[a, b]`, `- a` items or a comma-separated string. */
+  function list(key: string): string[] | undefined {
+    const found = entry(key);
+    if (!found || found.value === null) return undefined;
+    const items = typeof found.value === "string" ? found.value.split(",")
+      : Array.isArray(found.value) ? found.value
+      : fail(key, `${found.key} must be a list`);
+    if (items.some((item) => item !== null && typeof item !== "string")) fail(key, `${found.key} must be a list of plain values`);
+    return (items as (string | null)[]).map((item) => (item ?? "").trim()).filter(Boolean);
+  }
 
-  const notifyRaw = (get("notify") ?? "").toLowerCase();
-  const notify: true | false | "error" =
-    notifyRaw === "false" || notifyRaw === "no" ? false
-    : notifyRaw === "error" ? "error"
-    : true;
+  function boolean(key: string): boolean | undefined {
+    const raw = string(key)?.toLowerCase();
+    if (raw === undefined) return undefined;
+    if (raw === "true" || raw === "yes" || raw === "1") return true;
+    if (raw === "false" || raw === "no" || raw === "0") return false;
+    return fail(key, `Invalid ${key} "${raw}" (expected true or false)`);
+  }
 
-  const job: Job = { name, schedule, prompt, recurring, notify };
+  return { value, string, list, boolean, fail };
+}
 
-  const sessionGroup = get("session_group") ?? get("sessionGroup");
+/**
+ * Validate a parsed job file against the other job names. Throws
+ * FrontmatterError. A file with no schedule comes back as `triggered`;
+ * loadJobs drops it unless another job chains into it.
+ */
+async function buildJob(name: string, entries: FrontmatterEntry[], prompt: string, jobNames: Set<string>): Promise<Job> {
+  const reader = frontmatterReader(entries);
+  const { value, string, list, boolean } = reader;
+  // Annotated so calls narrow like a throw; a destructured `never` function doesn't.
+  const fail: (key: string, message: string) => never = reader.fail;
+
+  const cron = string("schedule");
+  const every = string("every");
+  const at = string("at");
+  if ([cron, every, at].filter(Boolean).length > 1) {
+    fail(every ? "every" : "at", "Use only one of schedule, every and at");
+  }
+
+  let schedule: JobSchedule;
+  if (cron) {
+    const scheduleError = validateCron(cron);
+    if (scheduleError) fail("schedule", scheduleError);
+    schedule = { kind: "cron", expr: cron };
+  } else if (every) {
+    const intervalMs = parseDuration(every, "m");
+    if (intervalMs === null || intervalMs < 60_000 || intervalMs % 60_000 !== 0) {
+      fail("every", `Invalid every "${every}" (expected whole minutes, e.g. 15m, 90m, 2h)`);
+    }
+    schedule = { kind: "every", intervalMs };
+  } else if (at) {
+    const parsed = parseLocalDateTime(at);
+    if (!parsed || parsed.dateOnly) fail("at", `Invalid at "${at}" (expected e.g. 2026-11-03T09:30)`);
+    schedule = { kind: "at", at: parsed };
+  } else {
+    schedule = { kind: "triggered" };
+  }
+
+  const recurring = boolean("recurring") ?? false;
+
+  const notifyRaw = string("notify")?.toLowerCase();
+  let notify: true | false | "error" = true;
+  if (notifyRaw === "false" || notifyRaw === "no") notify = false;
+  else if (notifyRaw === "error") notify = "error";
+  else if (notifyRaw !== undefined && notifyRaw !== "true" && notifyRaw !== "yes") {
+    fail("notify", `Invalid notify "${notifyRaw}" (expected true, false or error)`);
+  }
+
+  const enabled = boolean("enabled") ?? true;
+
+  const job: Job = { name, schedule, prompt, recurring, notify, enabled };
+
+  const pausedUntil = string("paused_until");
+  if (pausedUntil) {
+    const parsed = parseLocalDateTime(pausedUntil);
+    if (!parsed) fail("paused_until", `Invalid paused_until "${pausedUntil}" (expected e.g. 2026-11-01 or 2026-11-01T08:00)`);
+    job.pausedUntil = parsed;
+  }
+
+  for (const key of ["start", "end"] as const) {
+    const raw = string(key);
+    if (!raw) continue;
+    const parsed = parseLocalDateTime(raw);
+    if (!parsed) fail(key, `Invalid ${key} "${raw}" (expected e.g. 2026-11-01 or 2026-11-01T08:00)`);
+    job[key] = parsed;
+  }
+
+  const sessionGroup = string("session_group");
   if (sessionGroup) job.sessionGroup = sessionGroup;
 
-  const model = get("model");
+  const model = string("model");
   if (model) job.model = model;
 
-  const tools = get("tools");
-  if (tools) job.tools = tools;
+  const tools = list("tools");
+  if (tools && tools.length > 0) job.tools = tools.join(",");
 
-  const settingSources = get("setting_sources") ?? get("settingSources");
-  if (settingSources) job.settingSources = settingSources;
+  const settingSources = list("setting_sources");
+  if (settingSources && settingSources.length > 0) job.settingSources = settingSources.join(",");
 
-  const effort = get("effort");
+  const effort = string("effort");
   if (effort) job.effort = effort;
 
-  const maxTurns = get("max_turns") ?? get("maxTurns");
+  const maxTurns = string("max_turns");
   if (maxTurns) {
     const n = Number(maxTurns);
-    if (Number.isFinite(n) && n > 0) job.maxTurns = n;
+    if (!Number.isInteger(n) || n <= 0) fail("max_turns", `Invalid max_turns "${maxTurns}" (expected a positive whole number)`);
+    job.maxTurns = n;
   }
 
-  const type = get("type");
-  if (type === "maintenance") job.type = "maintenance";
+  const type = string("type");
+  if (type) {
+    if (type !== "maintenance") fail("type", `Invalid type "${type}" (expected maintenance)`);
+    job.type = "maintenance";
+  }
 
-  const command = get("command");
+  const command = string("command");
   if (command) job.command = command;
 
+  const timezone = string("timezone");
+  if (timezone) {
+    const normalized = normalizeTimezoneName(timezone);
+    if (!normalized) fail("timezone", `Unknown timezone "${timezone}"`);
+    job.timezone = normalized;
+  }
+
+  const catchUp = string("catch_up");
+  if (catchUp) {
+    if (catchUp !== "none" && catchUp !== "once" && catchUp !== "all") {
+      fail("catch_up", `Invalid catch_up "${catchUp}" (expected none, once or all)`);
+    }
+    job.catchUp = catchUp as Job["catchUp"];
+  }
+
+  const retries = string("retries");
+  if (retries) {
+    const n = Number(retries);
+    if (!Number.isInteger(n) || n < 0) fail("retries", `Invalid retries "${retries}" (expected a whole number)`);
+    if (n > 0) job.retries = n;
+  }
+
+  const retryDelay = string("retry_delay");
+  if (retryDelay) {
+    const ms = parseDuration(retryDelay);
+    if (ms === null || ms <= 0) fail("retry_delay", `Invalid retry_delay "${retryDelay}" (expected e.g. 30s, 5m, 1h)`);
+    job.retryDelayMs = ms;
+  }
+
+  const retryOn = list("retry_on");
+  if (retryOn) {
+    const unknown = retryOn.find((r) => !(RETRY_REASONS as readonly string[]).includes(r));
+    if (unknown || retryOn.length === 0) {
+      fail("retry_on", `Invalid retry_on "${retryOn.join(", ")}" (expected error, rate_limit and/or timeout)`);
+    }
+    job.retryOn = retryOn as RetryReason[];
+  }
+
+  const timeout = string("timeout");
+  if (timeout) {
+    const ms = timeout === "none" ? 0 : parseDuration(timeout, "m");
+    if (ms === null) fail("timeout", `Invalid timeout "${timeout}" (expected e.g. 10m, 1h or none)`);
+    job.timeoutMs = ms;
+  }
+
+  const concurrency = string("concurrency");
+  if (concurrency) {
+    if (concurrency !== "allow" && concurrency !== "skip" && concurrency !== "queue" && concurrency !== "replace") {
+      fail("concurrency", `Invalid concurrency "${concurrency}" (expected allow, skip, queue or replace)`);
+    }
+    job.concurrency = concurrency as ConcurrencyPolicy;
+  }
+
+  const when = string("when");
+  if (when) job.when = when;
+
+  for (const [key, field] of [["after", "after"], ["on_success", "onSuccess"]] as const) {
+    const names = list(key);
+    if (!names || names.length === 0) continue;
+    const unknown = names.find((n) => !jobNames.has(n));
+    if (unknown) fail(key, `Unknown job "${unknown}" in ${key}`);
+    job[field] = names;
+  }
+
+  const windows = value("exclude_windows");
+  if (windows !== undefined) job.excludeWindows = parseJobExcludeWindows(windows, (message) => fail("exclude_windows", message));
+
+  const excludeDates: string[] = [];
+  for (const raw of list("exclude_dates") ?? []) {
+    const dates = parseExcludedDates(raw);
+    if (!dates) fail("exclude_dates", `Invalid exclude_dates "${raw}" (expected e.g. 2026-12-24, 12-25 or 2026-12-24..2026-12-31)`);
+    excludeDates.push(...dates);
+  }
+  for (const path of list("holidays") ?? []) {
+    try {
+      excludeDates.push(...(await loadHolidayCalendar(path)));
+    } catch (err) {
+      fail("holidays", err instanceof Error ? err.message : String(err));
+    }
+  }
+  if (excludeDates.length > 0) job.excludeDates = [...new Set(excludeDates)];
+
+  if (job.type === "maintenance" && !job.command) fail("type", "Maintenance job has no command");
+
   return job;
 }
 
-export async function loadJobs(): Promise<Job[]> {
-  const jobs: Job[] = [];
+/**
+ * `exclude_windows`: a list of `{ start, end, days? }` mappings, the heartbeat's
+ * window model. Days are 0-7 (0 and 7 are Sunday) or `sun`-`sat`.
+ */
+function parseJobExcludeWindows(raw: FrontmatterValue, fail: (message: string) => never): ExcludeWindow[] {
+  if (!Array.isArray(raw)) fail("exclude_windows must be a list of { start, end, days } entries");
+  return raw.map((item, i) => {
+    if (!item || typeof item !== "object" || Array.isArray(item)) fail(`exclude_windows item ${i + 1} must be a mapping`);
+    const { start, end, days } = item as Record<string, FrontmatterValue>;
+    for (const [key, time] of [["start", start], ["end", end]] as const) {
+      if (typeof time !== "string" || parseClockMinutes(time) === null) {
+        fail(`Invalid ${key} in exclude_windows item ${i + 1} (expected HH:MM)`);
+      }
+    }
+    const window: ExcludeWindow = { start: start as string, end: end as string };
+    if (days !== undefined && days !== null) {
+      const items = typeof days === "string" ? days.split(",") : Array.isArray(days) ? days : fail(`days in exclude_windows item ${i + 1} must be a list`);
+      window.days = [...new Set(items.map((d) => {
+        const text = typeof d === "string" ? d.trim().toLowerCase() : "";
+        const day = /^[0-7]$/.test(text) ? Number(text) % 7 : WEEKDAY_NAMES.indexOf(text);
+        if (day < 0) fail(`Invalid day "${String(d)}" in exclude_windows item ${i + 1} (expected 0-7 or sun-sat)`);
+        return day;
+      }))].sort((a, b) => a - b);
+    }
+    return window;
+  });
+}
+
+/** The job's own `timezone:` if set, otherwise the daemon-wide setting. */
+export function getJobTimezone(job: Job, settings: Settings): TimezoneSpec {
+  return job.timezone ?? getSettingsTimezone(settings);
+}
+
+/** Whether the scheduler is holding the job back at `at` (disabled, or before `paused_until`). */
+export function isJobPaused(job: Job, timezone: TimezoneSpec, at = Date.now()): boolean {
+  if (!job.enabled) return true;
+  return job.pausedUntil !== undefined && resolveLocalDateTime(job.pausedUntil, timezone) > at;
+}
+
+/**
+ * Parse a pause end: a duration from now (`2h`, `3d`) or a date/time
+ * (`2026-11-03`, `2026-11-03T09:30`) in the job's timezone. Null if it is
+ * neither or already past.
+ */
+export function parsePauseUntil(raw: string, timezone: TimezoneSpec, now = Date.now()): LocalDateTime | null {
+  const duration = /^\d+$/.test(raw.trim()) ? null : parseDuration(raw);
+  if (duration !== null) {
+    if (duration <= 0) return null;
+    // Rounded up to the minute, since schedules have minute resolution.
+    const at = new Date(Math.ceil((now + duration) / 60_000) * 60_000);
+    return {
+      year: at.getUTCFullYear(),
+      month: at.getUTCMonth() + 1,
+      day: at.getUTCDate(),
+      hour: at.getUTCHours(),
+      minute: at.getUTCMinutes(),
+      dateOnly: false,
+      offsetMinutes: 0,
+    };
+  }
+  const parsed = parseLocalDateTime(raw);
+  if (!parsed || resolveLocalDateTime(parsed, timezone) <= now) return null;
+  return parsed;
+}
+
+/** How one job file fared when jobs were loaded. */
+export interface JobFileReport {
+  name: string;
+  /** Path relative to the project root. */
+  file: string;
+  /** `inert`: valid, but with no schedule and nothing chaining into it, so it never runs. */
+  status: "loaded" | "rejected" | "inert";
+  error?: string;
+  /** Frontmatter line the error points at, if any. */
+  line?: number;
+  /** The validated job, for loaded and inert files. */
+  job?: Job;
+}
+
+/**
+ * Load and validate every job file, then link chains: jobs in a dependency
+ * cycle are rejected, and each job learns its upstream jobs. Nothing is
+ * logged; every file gets a report, in file-name order.
+ */
+export async function inspectJobs(): Promise<{ jobs: Job[]; reports: JobFileReport[] }> {
   let files: string[];
   try {
     files = await readdir(JOBS_DIR);
   } catch {
-    return jobs;
+    return { jobs: [], reports: [] };
+  }
+
+  const names = files.filter((f) => f.endsWith(".md")).map((f) => f.replace(/\.md$/, "")).sort();
+  const jobNames = new Set(names);
+  const reports = new Map<string, JobFileReport>(
+    names.map((name) => [name, { name, file: join(".claude", "claudeclaw", "jobs", `${name}.md`), status: "loaded" }])
+  );
+  const reject = (name: string, error: string, line?: number) => {
+    const report = reports.get(name)!;
+    if (report.status === "rejected") return;
+    Object.assign(report, { status: "rejected", error, ...(line !== undefined ? { line } : {}) });
+    delete report.job;
+  };
+
+  let jobs: Job[] = [];
+  for (const name of names) {
+    const content = await Bun.file(join(JOBS_DIR, `${name}.md`)).text();
+    try {
+      const doc = parseFrontmatterDocument(content);
+      const job = await buildJob(name, doc.entries, doc.body.trim(), jobNames);
+      reports.get(name)!.job = job;
+      jobs.push(job);
+    } catch (err) {
+      if (err instanceof FrontmatterError) reject(name, err.message, err.line);
+      else reject(name, `Invalid job file: ${String(err)}`);
+    }
+  }
+
+  for (const cycle of findCycles(resolveUpstream(jobs))) {
+    for (const name of cycle) reject(name, `Dependency cycle: ${cycle.join(" → ")}`);
+  }
+  jobs = jobs.filter((job) => reports.get(job.name)!.status === "loaded");
+
+  const upstream = resolveUpstream(jobs);
+  for (const job of jobs) {
+    const list = upstream.get(job.name);
+    if (list) job.upstream = list;
   }
+  // Without a schedule or an upstream job, nothing would ever run it (e.g. a one-shot whose schedule was cleared).
+  jobs = jobs.filter((job) => {
+    if (job.schedule.kind !== "triggered" || job.upstream) return true;
+    reports.get(job.name)!.status = "inert";
+    return false;
+  });
 
-  for (const file of files) {
-    if (!file.endsWith(".md")) continue;
-    const content = await Bun.file(join(JOBS_DIR, file)).text();
-    const job = parseJobFile(file.replace(/\.md$/, ""), content);
-    if (job) jobs.push(job);
+  return { jobs, reports: [...reports.values()] };
+}
+
+/** The jobs that run; each rejected file is logged once per change rather than on every hot-reload. */
+export async function loadJobs(): Promise<Job[]> {
+  const { jobs, reports } = await inspectJobs();
+  for (const report of reports) {
+    if (report.error) reportJobError(report.name, report.error);
+    else reportedErrors.delete(report.name);
   }
   return jobs;
 }
 
-export async function clearJobSchedule(jobName: string): Promise<void> {
+/** When a job's file was last written (epoch ms); null if it's gone. */
+export async function getJobFileModifiedAt(jobName: string): Promise<number | null> {
+  try {
+    return (await stat(join(JOBS_DIR, `${jobName}.md`))).mtimeMs;
+  } catch {
+    return null;
+  }
+}
+
+/** Set or remove (null) frontmatter keys of a job file, and any alias spellings of them. */
+async function updateJobFrontmatter(jobName: string, updates: Record<string, string | null>): Promise<void> {
+  if (!/^[a-zA-Z0-9._-]+$/.test(jobName)) throw new Error("Invalid job name.");
   const path = join(JOBS_DIR, `${jobName}.md`);
-  const content = await Bun.file(path).text();
-  const match = content.match(/^---\s*\n([\s\S]*?)\n---\s*\n([\s\S]*)$/);
-  if (!match) return;
-
-  const filteredFrontmatter = match[1]
-    .split("\n")
-    .filter((line) => !line.trim().startsWith("schedule:"))
-    .join("\n")
-    .trim();
-
-  const body = match[2].trim();
-  const next = `---\n${filteredFrontmatter}\n---\n${body}\n`;
-  await Bun.write(path, next);
+  const file = Bun.file(path);
+  if (!(await file.exists())) throw new Error(`Unknown job "${jobName}".`);
+
+  const expanded: Record<string, string | null> = {};
+  for (const [key, value] of Object.entries(updates)) {
+    for (const alias of KEY_ALIASES[key] ?? []) expanded[alias] = null;
+    expanded[key] = value;
+  }
+  await Bun.write(path, setFrontmatterKeys(await file.text(), expanded));
+}
+
+export async function clearJobSchedule(jobName: string): Promise<void> {
+  await updateJobFrontmatter(jobName, { schedule: null });
+}
+
+/** Pause a job indefinitely (`enabled: false`) or until a given time (`paused_until`). */
+export async function pauseJob(jobName: string, until?: LocalDateTime): Promise<void> {
+  await updateJobFrontmatter(jobName, until
+    ? { enabled: null, paused_until: formatLocalDateTimeValue(until) }
+    : { enabled: "false", paused_until: null });
+}
+
+export async function resumeJob(jobName: string): Promise<void> {
+  await updateJobFrontmatter(jobName, { enabled: null, paused_until: null });
 }
@@ -1,35 +1,113 @@
-import { execClaude } from "./runner";
+import { mkdir } from "fs/promises";
+import { join } from "path";
+import { execClaude, killProcess } from "./runner";
+import { excerptOutput, recordRun } from "./run-history";
+
+// Maintenance runs are shell commands, not Claude runs — keep their logs apart.
+const MAINTENANCE_LOGS_DIR = join(process.cwd(), ".claude", "claudeclaw", "logs", "maintenance");
 
 export interface MaintenanceJob {
   name: string;
   command: string;
   notify: boolean;
+  trigger?: string;
+  /** Aborting kills the command. */
+  signal?: AbortSignal;
+}
+
+export interface ShellResult {
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+}
+
+export interface MaintenanceResult {
+  ok: boolean;
+  exitCode: number;
+  output: string;
+  triage?: string;
 }
 
 /**
- * Run a maintenance command via shell, then check output for errors.
- * If errors found and notify=true, spawn haiku to triage and return summary.
+ * Run a command through bash with the daemon's environment. Aborting or
+ * timing out kills the command and everything it started.
  */
-export async function runMaintenance(job: MaintenanceJob): Promise<{ ok: boolean; output: string; triage?: string }> {
-  const proc = Bun.spawn(["bash", "-c", job.command], {
+export async function runShellCommand(
+  command: string,
+  options: { signal?: AbortSignal; timeoutMs?: number } = {}
+): Promise<ShellResult> {
+  const proc = Bun.spawn(["bash", "-c", command], {
     stdout: "pipe",
     stderr: "pipe",
     env: { ...process.env, TERM: "dumb" },
+    detached: true,
   });
 
-  const [stdout, stderr] = await Promise.all([
-    new Response(proc.stdout).text(),
-    new Response(proc.stderr).text(),
-  ]);
-  const exitCode = await proc.exited;
+  let timedOut = false;
+  const stop = () => killProcess(proc);
+  const timer = options.timeoutMs
+    ? setTimeout(() => {
+        timedOut = true;
+        stop();
+      }, options.timeoutMs)
+    : null;
+  if (options.signal?.aborted) stop();
+  else options.signal?.addEventListener("abort", stop, { once: true });
+
+  try {
+    const [stdout, stderr] = await Promise.all([
+      new Response(proc.stdout).text(),
+      new Response(proc.stderr).text(),
+    ]);
+    const exitCode = await proc.exited;
+    return { exitCode, stdout, stderr, timedOut };
+  } finally {
+    if (timer) clearTimeout(timer);
+    options.signal?.removeEventListener("abort", stop);
+  }
+}
+
+/**
+ * Run a maintenance command via shell, then check output for errors.
+ * If errors found and notify=true, spawn haiku to triage and return summary.
+ */
+export async function runMaintenance(job: MaintenanceJob): Promise<MaintenanceResult> {
+  const startedAt = new Date();
+  console.log(`[${startedAt.toLocaleTimeString()}] Maintenance: ${job.name} (${job.command})`);
+
+  const { stdout, stderr, exitCode } = await runShellCommand(job.command, { signal: job.signal });
   const combined = `${stdout}\n${stderr}`.trim();
 
   const hasError = exitCode !== 0 || /\b(ERROR|FATAL|FAIL|CRITICAL)\b/i.test(combined);
 
-  if (!hasError) return { ok: true, output: combined };
+  const result: MaintenanceResult = { ok: !hasError, exitCode, output: combined };
+  if (hasError && job.notify) result.triage = await triage(job, exitCode, combined);
 
-  if (!job.notify) return { ok: false, output: combined };
+  const logFile = await writeMaintenanceLog(job, startedAt, result);
+  console.log(`[${new Date().toLocaleTimeString()}] Maintenance ${result.ok ? "ok" : "failed"}: ${job.name} → ${logFile}`);
 
+  const endedAt = Date.now();
+  await recordRun({
+    id: crypto.randomUUID().slice(0, 8),
+    job: job.name,
+    group: "maintenance",
+    sessionId: null,
+    ...(job.trigger ? { trigger: job.trigger } : {}),
+    startedAt: startedAt.getTime(),
+    endedAt,
+    durationMs: endedAt - startedAt.getTime(),
+    exitCode,
+    status: job.signal?.aborted ? "cancelled" : result.ok ? "success" : "error",
+    model: null,
+    fallback: false,
+    outputExcerpt: excerptOutput(result.triage ?? combined),
+    logFile,
+  }).catch((err) => console.error(`[${new Date().toLocaleTimeString()}] Failed to record run history:`, err));
+  return result;
+}
+
+async function triage(job: MaintenanceJob, exitCode: number, combined: string): Promise<string> {
   const triagePrompt = [
     `Maintenance job "${job.name}" failed (exit ${exitCode}).`,
     "Output (last 2000 chars):",
@@ -47,8 +125,28 @@ export async function runMaintenance(job: MaintenanceJob): Promise<{ ok: boolean
       effort: "low",
       maxTurns: 1,
     });
-    return { ok: false, output: combined, triage: triage.stdout.trim() || "No triage output." };
+    return triage.stdout.trim() || "No triage output.";
   } catch {
-    return { ok: false, output: combined, triage: "Triage failed — check output manually." };
+    return "Triage failed — check output manually.";
   }
 }
+
+async function writeMaintenanceLog(job: MaintenanceJob, startedAt: Date, result: MaintenanceResult): Promise<string> {
+  await mkdir(MAINTENANCE_LOGS_DIR, { recursive: true });
+  const timestamp = startedAt.toISOString().replace(/[:.]/g, "-");
+  const logFile = join(MAINTENANCE_LOGS_DIR, `${job.name}-${timestamp}.log`);
+  const output = [
+    `# ${job.name} (maintenance)`,
+    `Date: ${startedAt.toISOString()}`,
+    `Command: ${job.command}`,
+    ...(job.trigger ? [`Trigger: ${job.trigger}`] : []),
+    `Exit code: ${result.exitCode}`,
+    `Status: ${result.ok ? "ok" : "failed"}`,
+    "",
+    "## Output",
+    result.output,
+    ...(result.triage ? ["## Triage", result.triage] : []),
+  ].join("\n");
+  await Bun.write(logFile, output);
+  return logFile;
+}
@@ -0,0 +1,80 @@
+/**
+ * A backend Claude Code can reach through the Anthropic API environment
+ * variables (ANTHROPIC_BASE_URL and friends), configured under `providers`.
+ */
+export interface ProviderConfig {
+  baseUrl: string;
+  authToken?: string;
+  /** Read the auth token from this variable of the daemon's environment instead. */
+  authTokenEnv?: string;
+  /** Passed as API_TIMEOUT_MS. */
+  timeoutMs?: number;
+  /** Model for a bare provider reference (`"model": "glm"`); the CLI default when unset. */
+  defaultModel?: string;
+  /** Extra variables for the Claude process, e.g. ANTHROPIC_SMALL_FAST_MODEL. */
+  env: Record<string, string>;
+}
+
+/** Providers that exist without configuration; a `providers` entry of the same name replaces one. */
+export const BUILTIN_PROVIDERS: Record<string, ProviderConfig> = {
+  glm: { baseUrl: "https://api.z.ai/api/anthropic", timeoutMs: 3_000_000, env: {} },
+};
+
+export interface ResolvedModel {
+  /** Provider name, or null for Anthropic's own API. */
+  provider: string | null;
+  /** What to pass to `--model`; empty for the CLI default. */
+  model: string;
+}
+
+/**
+ * Split a `model` setting into provider and model: `glm/glm-4.6` is model
+ * `glm-4.6` on provider `glm`, a bare `glm` is that provider's default model.
+ * Anything whose prefix isn't a provider (`opus`, `claude-sonnet-4-5`) is a
+ * plain model on the default API.
+ */
+export function resolveModel(ref: string, providers: Record<string, ProviderConfig>): ResolvedModel {
+  const trimmed = ref.trim();
+  const slash = trimmed.indexOf("/");
+  const name = (slash >= 0 ? trimmed.slice(0, slash) : trimmed).toLowerCase();
+  if (!Object.hasOwn(providers, name)) return { provider: null, model: trimmed };
+  const model = slash >= 0 ? trimmed.slice(slash + 1).trim() : "";
+  return { provider: name, model: model || providers[name].defaultModel || "" };
+}
+
+// Missing token variables are reported once, not on every run.
+const warnedEnv = new Set<string>();
+
+/**
+ * Environment for a Claude process served by `resolved.provider`. `api` (the
+ * `api` setting next to the model) is the token when the provider has none.
+ */
+export function buildProviderEnv(
+  baseEnv: Record<string, string>,
+  resolved: ResolvedModel,
+  providers: Record<string, ProviderConfig>,
+  api: string
+): Record<string, string> {
+  const childEnv: Record<string, string> = { ...baseEnv };
+  const provider = resolved.provider ? providers[resolved.provider] : null;
+
+  let token = api.trim();
+  if (provider?.authTokenEnv) {
+    const fromEnv = process.env[provider.authTokenEnv];
+    if (fromEnv) token = fromEnv;
+    else if (!warnedEnv.has(provider.authTokenEnv)) {
+      warnedEnv.add(provider.authTokenEnv);
+      console.warn(`[${new Date().toLocaleTimeString()}] Provider ${resolved.provider}: ${provider.authTokenEnv} is not set`);
+    }
+  } else if (provider?.authToken) {
+    token = provider.authToken;
+  }
+  if (token) childEnv.ANTHROPIC_AUTH_TOKEN = token;
+
+  if (provider) {
+    childEnv.ANTHROPIC_BASE_URL = provider.baseUrl;
+    if (provider.timeoutMs) childEnv.API_TIMEOUT_MS = String(provider.timeoutMs);
+    Object.assign(childEnv, provider.env);
+  }
+  return childEnv;
+}
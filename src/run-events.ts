@@ -0,0 +1,117 @@
+import type { RunStatus, RunUsage } from "./run-history";
+
+interface RunEventBase {
+  /** Same id as the active run and its run history record. */
+  runId: string;
+  /** Job or caller name, e.g. "heartbeat", "telegram". */
+  name: string;
+  at: number;
+}
+
+/** What a Claude run is doing, as it happens. */
+export type RunEvent = RunEventBase & (
+  | { type: "start"; group: string; trigger?: string }
+  /** A block of assistant text (one per message, not per token). */
+  | { type: "text"; text: string }
+  | { type: "tool_use"; tool: string; summary: string }
+  | { type: "result"; text: string; isError: boolean; sessionId: string | null }
+  | { type: "end"; status: RunStatus; exitCode: number }
+);
+
+type RunEventListener = (event: RunEvent) => void;
+
+const listeners = new Set<RunEventListener>();
+
+/** Subscribe to the events of every run in this process; returns an unsubscribe function. */
+export function onRunEvent(listener: RunEventListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function emitRunEvent(event: RunEvent): void {
+  for (const listener of listeners) {
+    try {
+      listener(event);
+    } catch (err) {
+      console.error(`[${new Date().toLocaleTimeString()}] Run event listener failed:`, err);
+    }
+  }
+}
+
+/** One line of `claude --output-format stream-json` output, reduced to what the runner uses. */
+export type StreamLine =
+  | { kind: "session"; sessionId: string }
+  | { kind: "text"; text: string }
+  | { kind: "tool_use"; tool: string; summary: string }
+  | { kind: "result"; text: string; isError: boolean; sessionId: string | null; usage: RunUsage | null };
+
+const SUMMARY_KEYS = ["command", "file_path", "path", "pattern", "url", "query", "description", "prompt"];
+const MAX_SUMMARY_CHARS = 120;
+
+/** A short, single-line description of a tool call's input, e.g. the Bash command. */
+function summarizeToolInput(input: unknown): string {
+  if (!input || typeof input !== "object") return "";
+  const record = input as Record<string, unknown>;
+  const key = SUMMARY_KEYS.find((k) => typeof record[k] === "string" && record[k]);
+  const text = (key ? String(record[key]) : "").replace(/\s+/g, " ").trim();
+  return text.length > MAX_SUMMARY_CHARS ? `${text.slice(0, MAX_SUMMARY_CHARS - 1)}…` : text;
+}
+
+function count(value: unknown): number {
+  return typeof value === "number" && Number.isFinite(value) ? value : 0;
+}
+
+/** Usage of a `result` line; null when it carries neither token counts nor a cost. */
+function parseUsage(json: any): RunUsage | null {
+  const usage = json.usage && typeof json.usage === "object" ? json.usage : null;
+  if (!usage && typeof json.total_cost_usd !== "number") return null;
+  return {
+    inputTokens: count(usage?.input_tokens),
+    outputTokens: count(usage?.output_tokens),
+    cacheReadTokens: count(usage?.cache_read_input_tokens),
+    cacheCreationTokens: count(usage?.cache_creation_input_tokens),
+    costUsd: count(json.total_cost_usd),
+    numTurns: count(json.num_turns),
+    durationMs: count(json.duration_ms),
+  };
+}
+
+/**
+ * Parse one stream-json line. Returns the events it carries (an assistant
+ * message can hold several text and tool_use blocks), or null if the line
+ * isn't JSON, e.g. a plain-text error.
+ */
+export function parseStreamLine(line: string): StreamLine[] | null {
+  let json: any;
+  try {
+    json = JSON.parse(line);
+  } catch {
+    return null;
+  }
+  if (!json || typeof json !== "object") return null;
+
+  if (json.type === "system" && json.subtype === "init" && typeof json.session_id === "string") {
+    return [{ kind: "session", sessionId: json.session_id }];
+  }
+  if (json.type === "assistant" && Array.isArray(json.message?.content)) {
+    const out: StreamLine[] = [];
+    for (const block of json.message.content) {
+      if (block?.type === "text" && typeof block.text === "string" && block.text.trim()) {
+        out.push({ kind: "text", text: block.text });
+      } else if (block?.type === "tool_use" && typeof block.name === "string") {
+        out.push({ kind: "tool_use", tool: block.name, summary: summarizeToolInput(block.input) });
+      }
+    }
+    return out;
+  }
+  if (json.type === "result") {
+    return [{
+      kind: "result",
+      text: typeof json.result === "string" ? json.result : "",
+      isError: json.is_error === true,
+      sessionId: typeof json.session_id === "string" ? json.session_id : null,
+      usage: parseUsage(json),
+    }];
+  }
+  return [];
+}
@@ -0,0 +1,170 @@
+import { join } from "path";
+import { appendFile, mkdir, readFile, rename, writeFile } from "fs/promises";
+
+const HEARTBEAT_DIR = join(process.cwd(), ".claude", "claudeclaw");
+const HISTORY_FILE = join(HEARTBEAT_DIR, "run-history.jsonl");
+// Compact back down to MAX_RECORDS once the file grows a fifth past it.
+const MAX_RECORDS = 5000;
+const COMPACT_AT = Math.round(MAX_RECORDS * 1.2);
+const OUTPUT_EXCERPT_CHARS = 500;
+
+export const RUN_STATUSES = ["success", "error", "rate_limited", "timed_out", "cancelled", "skipped"] as const;
+
+export type RunStatus = (typeof RUN_STATUSES)[number];
+
+/** A classified result: nothing to report, something to report, or a failure. */
+export type RunOutcome = "ok" | "notify" | "error";
+
+/** Tokens, cost and turns of a Claude run, from the `result` line of its output. */
+export interface RunUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+  costUsd: number;
+  numTurns: number;
+  /** Claude's own `duration_ms`, which excludes time spent waiting in the queue. */
+  durationMs: number;
+}
+
+export interface RunRecord {
+  id: string;
+  /** Job name, or the run's label for non-job runs (heartbeat, telegram, ...). */
+  job: string;
+  group: string;
+  sessionId: string | null;
+  trigger?: string;
+  startedAt: number;
+  endedAt: number;
+  durationMs: number;
+  exitCode: number | null;
+  status: RunStatus;
+  /** Model the run used; null for the CLI default. */
+  model: string | null;
+  fallback: boolean;
+  /** Provider that served the run (`anthropic` for the default API); absent on older records and skipped runs. */
+  provider?: string;
+  attempt?: number;
+  maxAttempts?: number;
+  /** Why a run was skipped, or failed before it started. */
+  reason?: string;
+  /** Set for classified runs (heartbeats). */
+  outcome?: RunOutcome;
+  /** The result was not delivered, e.g. a `HEARTBEAT_OK` reply. */
+  suppressed?: boolean;
+  /** Missing for runs that never reached Claude, and for runs recorded before usage was tracked. */
+  usage?: RunUsage;
+  outputExcerpt: string;
+  logFile?: string;
+}
+
+export interface RunQuery {
+  job?: string;
+  statuses?: RunStatus[];
+  limit: number;
+  offset: number;
+}
+
+let recordCount: number | null = null;
+// Appends and compaction go through one chain so a compaction never drops a record.
+let writeChain: Promise<unknown> = Promise.resolve();
+
+export function excerptOutput(output: string): string {
+  const trimmed = output.trim();
+  return trimmed.length > OUTPUT_EXCERPT_CHARS ? `${trimmed.slice(0, OUTPUT_EXCERPT_CHARS)}…` : trimmed;
+}
+
+async function readRecords(): Promise<RunRecord[]> {
+  let text: string;
+  try {
+    text = await readFile(HISTORY_FILE, "utf8");
+  } catch {
+    return [];
+  }
+  const records: RunRecord[] = [];
+  for (const line of text.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      records.push(JSON.parse(line));
+    } catch {
+      // A torn line from a crash mid-append; skip it.
+    }
+  }
+  return records;
+}
+
+async function compact(): Promise<void> {
+  const kept = (await readRecords()).slice(-MAX_RECORDS);
+  const tmp = HISTORY_FILE + ".tmp";
+  await writeFile(tmp, kept.map((r) => JSON.stringify(r)).join("\n") + "\n", "utf8");
+  await rename(tmp, HISTORY_FILE);
+  recordCount = kept.length;
+}
+
+export function recordRun(record: RunRecord): Promise<void> {
+  const task = writeChain.then(async () => {
+    await mkdir(HEARTBEAT_DIR, { recursive: true });
+    if (recordCount === null) recordCount = (await readRecords()).length;
+    await appendFile(HISTORY_FILE, JSON.stringify(record) + "\n", "utf8");
+    recordCount++;
+    if (recordCount > COMPACT_AT) await compact();
+  });
+  writeChain = task.catch(() => {});
+  return task;
+}
+
+/** Matching runs, newest first, with the total before pagination. */
+export async function queryRuns(query: RunQuery): Promise<{ runs: RunRecord[]; total: number }> {
+  const statuses = query.statuses && query.statuses.length > 0 ? new Set(query.statuses) : null;
+  const matching = (await readRecords())
+    .filter((r) => (!query.job || r.job === query.job) && (!statuses || statuses.has(r.status)))
+    .sort((a, b) => b.startedAt - a.startedAt);
+  return { runs: matching.slice(query.offset, query.offset + query.limit), total: matching.length };
+}
+
+/**
+ * Full output of a job's latest successful run, read back from its log (the
+ * `## Output` section); the history excerpt if the log is gone. Null if none.
+ */
+export async function getLastOutput(job: string): Promise<string | null> {
+  const [last] = (await queryRuns({ job, statuses: ["success"], limit: 1, offset: 0 })).runs;
+  if (!last) return null;
+  if (last.logFile) {
+    try {
+      const log = await readFile(last.logFile, "utf8");
+      const start = log.indexOf("\n## Output\n");
+      if (start >= 0) {
+        const output = log.slice(start + "\n## Output\n".length);
+        const end = output.indexOf("\n## Stderr\n");
+        return (end >= 0 ? output.slice(0, end) : output).trim();
+      }
+    } catch {
+      // Log rotated away; fall back to the excerpt.
+    }
+  }
+  return last.outputExcerpt;
+}
+
+/** Every recorded run that started at or after `sinceMs`, oldest first. */
+export async function listRunsSince(sinceMs: number): Promise<RunRecord[]> {
+  return (await readRecords()).filter((r) => r.startedAt >= sinceMs);
+}
+
+/** How many of a job's runs since `sinceMs` were suppressed, and how many were delivered. */
+export async function countSuppressedRuns(job: string, sinceMs: number): Promise<{ suppressed: number; delivered: number }> {
+  const counts = { suppressed: 0, delivered: 0 };
+  for (const record of await readRecords()) {
+    if (record.job !== job || record.startedAt < sinceMs || record.outcome === undefined) continue;
+    if (record.suppressed) counts.suppressed++;
+    else counts.delivered++;
+  }
+  return counts;
+}
+
+/** Parse a `status=error,timed_out` filter; null if it names an unknown status. */
+export function parseStatusFilter(raw: string | null): RunStatus[] | null {
+  if (!raw) return [];
+  const statuses = raw.split(",").map((s) => s.trim()).filter(Boolean);
+  if (statuses.some((s) => !(RUN_STATUSES as readonly string[]).includes(s))) return null;
+  return statuses as RunStatus[];
+}
@@ -9,8 +9,15 @@ import {
   rotateSession,
 } from "./session-registry";
 import { estimateSessionTokens } from "./token-estimator";
-import { getSettings, type ModelConfig, type SecurityConfig } from "./config";
-import { buildClockPromptPrefix } from "./timezone";
+import { getSettings, getSettingsTimezone, type ModelConfig, type SecurityConfig } from "./config";
+import { buildClockPromptPrefix, resolveOffsetMinutesAt } from "./timezone";
+import { formatDuration } from "./duration";
+import { formatUsage, sumUsage } from "./usage";
+import { checkBudgets } from "./budgets";
+import { buildProviderEnv, resolveModel, type ProviderConfig, type ResolvedModel } from "./providers";
+import { excerptOutput, recordRun, type RunOutcome, type RunStatus, type RunUsage } from "./run-history";
+import { emitRunEvent, parseStreamLine } from "./run-events";
+import type { Subprocess } from "bun";
 
 const LOGS_DIR = join(process.cwd(), ".claude/claudeclaw/logs");
 const PROMPTS_DIR = join(import.meta.dir, "..", "prompts");
@@ -21,11 +28,32 @@ const CLAUDECLAW_BLOCK_START = "<!-- claudeclaw:managed:start -->";
 const CLAUDECLAW_BLOCK_END = "<!-- claudeclaw:managed:end -->";
 
 const DEFAULT_ROTATION_THRESHOLD = 120_000;
+// Grace period between SIGTERM and SIGKILL when stopping a run.
+const KILL_GRACE_MS = 5_000;
 
 export interface RunResult {
   stdout: string;
   stderr: string;
   exitCode: number;
+  /** Why the run never started (a `when:` precheck said no). */
+  skipped?: string;
+  /** The run hit a usage limit (after trying the fallback model, if any). */
+  rateLimited?: boolean;
+  /** Killed after exceeding its timeout. */
+  timedOut?: boolean;
+  /** Killed on request (Telegram /cancel, web UI). */
+  cancelled?: boolean;
+  /** Set when the run was started with `classify`. */
+  classification?: RunClassification;
+}
+
+/** What a caller made of a run's result; recorded in run history. */
+export interface RunClassification {
+  outcome: RunOutcome;
+  /** Not worth delivering, e.g. a heartbeat with nothing to report. */
+  suppressed: boolean;
+  /** What to deliver in place of stdout, e.g. with a sentinel reply stripped. */
+  message?: string;
 }
 
 export interface RunOptions {
@@ -36,8 +64,41 @@ export interface RunOptions {
   effort?: string;
   maxTurns?: number;
   noSessionPersistence?: boolean;
+  /** What started the run (e.g. "schedule", "catch-up"); recorded in the run log. */
+  trigger?: string;
+  /** Retry bookkeeping; recorded in the run log when a job allows retries. */
+  attempt?: number;
+  maxAttempts?: number;
+  /** Kill the run after this long; overrides `runTimeoutMinutes`, 0 disables. */
+  timeoutMs?: number;
+  /** Aborting cancels the run, or drops it if it is still waiting in its queue. */
+  signal?: AbortSignal;
+  /** Id for the run, so a caller can pick its events off the bus before it starts; random when unset. */
+  runId?: string;
+  /** A message from the user (Telegram, `send`); still answered under a `user-only` budget. */
+  userMessage?: boolean;
+  /** Classify the result before it is recorded (heartbeats: ok / notify / error). */
+  classify?: (result: RunResult) => RunClassification;
+}
+
+export interface ActiveRun {
+  id: string;
+  name: string;
+  group: string;
+  trigger?: string;
+  startedAt: number;
+  /** 0 when the run has no time limit. */
+  timeoutMs: number;
 }
 
+interface ActiveRunEntry extends ActiveRun {
+  proc: Subprocess | null;
+  stopReason: "cancelled" | "timed_out" | null;
+}
+
+// Claude processes currently running, so they can be timed out or cancelled.
+const activeRuns = new Map<string, ActiveRunEntry>();
+
 const RATE_LIMIT_PATTERN = /you(?:'|')ve hit your limit/i;
 
 // Per-group serial queues — prevents concurrent --resume on same session
@@ -59,6 +120,48 @@ function extractRateLimitMessage(stdout: string, stderr: string): string | null
   return null;
 }
 
+// Claude runs in its own process group; signal the whole group so tool
+// subprocesses die too and stop holding the output pipes open.
+function signalProcessGroup(proc: Subprocess, signal: NodeJS.Signals): void {
+  try {
+    process.kill(-proc.pid, signal);
+  } catch {
+    proc.kill(signal);
+  }
+}
+
+/** SIGTERM a detached process and everything it started, then SIGKILL after a grace period. */
+export function killProcess(proc: Subprocess): void {
+  signalProcessGroup(proc, "SIGTERM");
+  setTimeout(() => signalProcessGroup(proc, "SIGKILL"), KILL_GRACE_MS).unref();
+}
+
+function stopRun(entry: ActiveRunEntry, reason: "cancelled" | "timed_out"): void {
+  if (entry.stopReason) return;
+  entry.stopReason = reason;
+  console.warn(
+    `[${new Date().toLocaleTimeString()}] ${reason === "timed_out" ? `Timed out after ${formatDuration(entry.timeoutMs)}` : "Cancelled"}: ${entry.name} (run ${entry.id})`
+  );
+  if (entry.proc) killProcess(entry.proc);
+}
+
+export function listActiveRuns(): ActiveRun[] {
+  return [...activeRuns.values()].map(({ proc: _, stopReason: __, ...run }) => run);
+}
+
+/** Kill an in-flight run. Returns false if no run with that id is active. */
+export function cancelRun(id: string): boolean {
+  const entry = activeRuns.get(id);
+  if (!entry) return false;
+  stopRun(entry, "cancelled");
+  return true;
+}
+
+/** Kill every in-flight run, e.g. when the daemon shuts down. */
+export function cancelAllRuns(): void {
+  for (const entry of activeRuns.values()) stopRun(entry, "cancelled");
+}
+
 function sameModelConfig(a: ModelConfig, b: ModelConfig): boolean {
   return a.model.trim().toLowerCase() === b.model.trim().toLowerCase() && a.api.trim() === b.api.trim();
 }
@@ -67,43 +170,87 @@ function hasModelConfig(value: ModelConfig): boolean {
   return value.model.trim().length > 0 || value.api.trim().length > 0;
 }
 
-function buildChildEnv(baseEnv: Record<string, string>, model: string, api: string): Record<string, string> {
-  const childEnv: Record<string, string> = { ...baseEnv };
-  const normalizedModel = model.trim().toLowerCase();
-
-  if (api.trim()) childEnv.ANTHROPIC_AUTH_TOKEN = api.trim();
+interface ClaudeExec {
+  /** The result text, or the plain-text output if Claude never got as far as a result. */
+  text: string;
+  sessionId: string | null;
+  /** From the result line; null if Claude never got that far. */
+  usage: RunUsage | null;
+  stderr: string;
+  exitCode: number;
+}
 
-  if (normalizedModel === "glm") {
-    childEnv.ANTHROPIC_BASE_URL = "https://api.z.ai/api/anthropic";
-    childEnv.API_TIMEOUT_MS = "3000000";
+/** Feed a byte stream to `onLine` one line at a time, as it arrives. */
+async function readLines(stream: ReadableStream<Uint8Array>, onLine: (line: string) => void): Promise<void> {
+  const decoder = new TextDecoder();
+  let buffer = "";
+  for await (const chunk of stream) {
+    buffer += decoder.decode(chunk, { stream: true });
+    let newline: number;
+    while ((newline = buffer.indexOf("\n")) >= 0) {
+      onLine(buffer.slice(0, newline));
+      buffer = buffer.slice(newline + 1);
+    }
   }
-
-  return childEnv;
+  buffer += decoder.decode();
+  if (buffer) onLine(buffer);
 }
 
 async function runClaudeOnce(
   baseArgs: string[],
-  model: string,
+  model: ResolvedModel,
   api: string,
-  baseEnv: Record<string, string>
-): Promise<{ rawStdout: string; stderr: string; exitCode: number }> {
+  providers: Record<string, ProviderConfig>,
+  baseEnv: Record<string, string>,
+  entry: ActiveRunEntry
+): Promise<ClaudeExec> {
   const args = [...baseArgs];
-  const normalizedModel = model.trim().toLowerCase();
-  if (model.trim() && normalizedModel !== "glm") args.push("--model", model.trim());
+  if (model.model) args.push("--model", model.model);
 
   const proc = Bun.spawn(args, {
     stdout: "pipe",
     stderr: "pipe",
-    env: buildChildEnv(baseEnv, model, api),
+    env: buildProviderEnv(baseEnv, model, providers, api),
+    detached: true,
   });
+  entry.proc = proc;
+  if (entry.stopReason) killProcess(proc);
+
+  let sessionId: string | null = null;
+  let result: string | null = null;
+  let usage: RunUsage | null = null;
+  const plain: string[] = [];
+  const onLine = (line: string) => {
+    if (!line.trim()) return;
+    const parsed = parseStreamLine(line);
+    if (!parsed) {
+      plain.push(line);
+      return;
+    }
+    for (const item of parsed) {
+      const base = { runId: entry.id, name: entry.name, at: Date.now() };
+      if (item.kind === "session") {
+        sessionId = item.sessionId;
+      } else if (item.kind === "text") {
+        emitRunEvent({ ...base, type: "text", text: item.text });
+      } else if (item.kind === "tool_use") {
+        emitRunEvent({ ...base, type: "tool_use", tool: item.tool, summary: item.summary });
+      } else {
+        result = item.text;
+        usage = item.usage;
+        sessionId = item.sessionId ?? sessionId;
+        emitRunEvent({ ...base, type: "result", text: item.text, isError: item.isError, sessionId });
+      }
+    }
+  };
 
-  const [rawStdout, stderr] = await Promise.all([
-    new Response(proc.stdout).text(),
+  const [, stderr] = await Promise.all([
+    readLines(proc.stdout, onLine),
     new Response(proc.stderr).text(),
   ]);
   await proc.exited;
 
-  return { rawStdout, stderr, exitCode: proc.exitCode ?? 1 };
+  return { text: result ?? plain.join("\n"), sessionId, usage, stderr, exitCode: proc.exitCode ?? 1 };
 }
 
 const PROJECT_DIR = process.cwd();
@@ -224,6 +371,10 @@ async function checkAndRotate(group: string): Promise<void> {
 }
 
 export async function execClaude(name: string, prompt: string, options?: RunOptions): Promise<RunResult> {
+  if (options?.signal?.aborted) {
+    console.log(`[${new Date().toLocaleTimeString()}] Dropped: ${name} (cancelled before it started)`);
+    return { stdout: "", stderr: "", exitCode: 1, cancelled: true };
+  }
   await mkdir(LOGS_DIR, { recursive: true });
 
   const group = options?.sessionGroup ?? "default";
@@ -241,7 +392,15 @@ export async function execClaude(name: string, prompt: string, options?: RunOpti
   const logFile = join(LOGS_DIR, `${name}-${timestamp}.log`);
 
   const settings = getSettings();
-  const modelOverride = options?.model;
+  const budget = await checkBudgets(settings, { job: name, group, userMessage: options?.userMessage });
+  if (budget.action === "refuse") {
+    await recordSkippedRun(name, budget.reason, options?.trigger, group);
+    return { stdout: "", stderr: "", exitCode: 0, skipped: budget.reason };
+  }
+  if (budget.action === "downgrade") {
+    console.log(`[${new Date().toLocaleTimeString()}] Budget: ${name} downgraded to ${budget.model} (${budget.reason})`);
+  }
+  const modelOverride = budget.action === "downgrade" ? budget.model : options?.model;
   const primaryConfig: ModelConfig = {
     model: modelOverride ?? settings.model,
     api: settings.api,
@@ -250,14 +409,16 @@ export async function execClaude(name: string, prompt: string, options?: RunOpti
     model: settings.fallback?.model ?? "",
     api: settings.fallback?.api ?? "",
   };
+  const primaryModel = resolveModel(primaryConfig.model, settings.providers);
+  const fallbackModel = resolveModel(fallbackConfig.model, settings.providers);
   const securityArgs = buildSecurityArgs(settings.security);
 
   console.log(
     `[${new Date().toLocaleTimeString()}] Running: ${name} (group=${group}, ${isNew ? "new session" : `resume ${existing!.sessionId.slice(0, 8)}`}, security: ${settings.security.level})`
   );
 
-  const outputFormat = isNew ? "json" : "text";
-  const args = ["claude", "-p", prompt, "--output-format", outputFormat, ...securityArgs];
+  // stream-json (which needs --verbose with -p) reports progress as it happens; the last line is the result.
+  const args = ["claude", "-p", prompt, "--output-format", "stream-json", "--verbose", ...securityArgs];
 
   if (!isNew) {
     args.push("--resume", existing!.sessionId);
@@ -304,54 +465,103 @@ export async function execClaude(name: string, prompt: string, options?: RunOpti
   const { CLAUDECODE: _, ...cleanEnv } = process.env;
   const baseEnv = { ...cleanEnv } as Record<string, string>;
 
-  let exec = await runClaudeOnce(args, primaryConfig.model, primaryConfig.api, baseEnv);
-  const primaryRateLimit = extractRateLimitMessage(exec.rawStdout, exec.stderr);
-  let usedFallback = false;
+  const timeoutMs = options?.timeoutMs ?? settings.runTimeoutMinutes * 60_000;
+  const entry: ActiveRunEntry = {
+    id: options?.runId ?? crypto.randomUUID().slice(0, 8),
+    name,
+    group,
+    ...(options?.trigger ? { trigger: options.trigger } : {}),
+    startedAt: Date.now(),
+    timeoutMs,
+    proc: null,
+    stopReason: null,
+  };
+  activeRuns.set(entry.id, entry);
+  emitRunEvent({
+    runId: entry.id,
+    name,
+    at: entry.startedAt,
+    type: "start",
+    group,
+    ...(options?.trigger ? { trigger: options.trigger } : {}),
+  });
+  const onAbort = () => stopRun(entry, "cancelled");
+  options?.signal?.addEventListener("abort", onAbort, { once: true });
+  const timeoutTimer = timeoutMs > 0 ? setTimeout(() => stopRun(entry, "timed_out"), timeoutMs) : null;
 
-  if (primaryRateLimit && hasModelConfig(fallbackConfig) && !sameModelConfig(primaryConfig, fallbackConfig)) {
-    console.warn(
-      `[${new Date().toLocaleTimeString()}] Claude limit reached; retrying with fallback${fallbackConfig.model ? ` (${fallbackConfig.model})` : ""}...`
-    );
-    exec = await runClaudeOnce(args, fallbackConfig.model, fallbackConfig.api, baseEnv);
-    usedFallback = true;
+  let exec: ClaudeExec;
+  let usedFallback = false;
+  try {
+    exec = await runClaudeOnce(args, primaryModel, primaryConfig.api, settings.providers, baseEnv, entry);
+    const primaryRateLimit = extractRateLimitMessage(exec.text, exec.stderr);
+
+    if (
+      primaryRateLimit &&
+      !entry.stopReason &&
+      hasModelConfig(fallbackConfig) &&
+      !sameModelConfig(primaryConfig, fallbackConfig)
+    ) {
+      console.warn(
+        `[${new Date().toLocaleTimeString()}] Claude limit reached; retrying with fallback${fallbackConfig.model ? ` (${fallbackConfig.model})` : ""}...`
+      );
+      const primaryUsage = exec.usage;
+      exec = await runClaudeOnce(args, fallbackModel, fallbackConfig.api, settings.providers, baseEnv, entry);
+      exec.usage = sumUsage(primaryUsage, exec.usage);
+      usedFallback = true;
+    }
+  } finally {
+    if (timeoutTimer) clearTimeout(timeoutTimer);
+    options?.signal?.removeEventListener("abort", onAbort);
+    activeRuns.delete(entry.id);
   }
 
-  const rawStdout = exec.rawStdout;
   const stderr = exec.stderr;
   const exitCode = exec.exitCode;
-  let stdout = rawStdout;
+  let stdout = exec.text;
   let sessionId = existing?.sessionId ?? "unknown";
-  const rateLimitMessage = extractRateLimitMessage(rawStdout, stderr);
+  const rateLimitMessage = extractRateLimitMessage(exec.text, stderr);
 
   if (rateLimitMessage) {
     stdout = rateLimitMessage;
   }
 
-  if (!rateLimitMessage && isNew && exitCode === 0) {
-    try {
-      const json = JSON.parse(rawStdout);
-      sessionId = json.session_id;
-      stdout = json.result ?? "";
+  if (!rateLimitMessage && !entry.stopReason && isNew && exitCode === 0) {
+    if (exec.sessionId) {
+      sessionId = exec.sessionId;
       if (options?.sessionGroup) {
         await createSessionForGroup(group, sessionId);
       } else if (!options?.noSessionPersistence) {
         await createSession(sessionId);
       }
       console.log(`[${new Date().toLocaleTimeString()}] Session created: ${sessionId} (group=${group})`);
-    } catch (e) {
-      console.error(`[${new Date().toLocaleTimeString()}] Failed to parse session from Claude output:`, e);
+    } else {
+      console.error(`[${new Date().toLocaleTimeString()}] No session id in Claude output for ${name}`);
     }
   }
 
   const result: RunResult = { stdout, stderr, exitCode };
+  if (rateLimitMessage) result.rateLimited = true;
+  if (entry.stopReason === "timed_out") result.timedOut = true;
+  if (entry.stopReason === "cancelled") result.cancelled = true;
+  if (options?.classify) result.classification = options.classify(result);
+  const classification = result.classification;
+  const usedProvider = (usedFallback ? fallbackModel : primaryModel).provider;
 
   const output = [
     `# ${name}`,
     `Date: ${new Date().toISOString()}`,
     `Session: ${sessionId} (${isNew ? "new" : "resumed"}, group=${group})`,
     `Model: ${usedFallback ? "fallback" : "primary"}${modelOverride ? ` (override: ${modelOverride})` : ""}`,
+    `Provider: ${usedProvider ? `${usedProvider} (${settings.providers[usedProvider].baseUrl})` : "anthropic"}`,
+    ...(budget.action === "downgrade" ? [`Budget: downgraded, ${budget.reason}`] : []),
+    ...(options?.trigger ? [`Trigger: ${options.trigger}`] : []),
+    ...(options?.attempt ? [`Attempt: ${options.attempt}/${options.maxAttempts ?? options.attempt}`] : []),
     `Prompt: ${prompt}`,
     `Exit code: ${result.exitCode}`,
+    ...(result.timedOut ? [`Status: timed out after ${formatDuration(timeoutMs)}`] : []),
+    ...(result.cancelled ? ["Status: cancelled"] : []),
+    ...(classification ? [`Outcome: ${classification.outcome}${classification.suppressed ? " (suppressed)" : ""}`] : []),
+    ...(exec.usage ? [`Usage: ${formatUsage(exec.usage)}`] : []),
     "",
     "## Output",
     stdout,
@@ -361,9 +571,90 @@ export async function execClaude(name: string, prompt: string, options?: RunOpti
   await Bun.write(logFile, output);
   console.log(`[${new Date().toLocaleTimeString()}] Done: ${name} → ${logFile}`);
 
+  const endedAt = Date.now();
+  const usedModel = (usedFallback ? fallbackConfig.model : primaryConfig.model).trim();
+  await recordRun({
+    id: entry.id,
+    job: name,
+    group,
+    sessionId: sessionId === "unknown" ? null : sessionId,
+    ...(options?.trigger ? { trigger: options.trigger } : {}),
+    startedAt: entry.startedAt,
+    endedAt,
+    durationMs: endedAt - entry.startedAt,
+    exitCode: result.exitCode,
+    status: getRunStatus(result),
+    model: usedModel || null,
+    fallback: usedFallback,
+    provider: usedProvider ?? "anthropic",
+    ...(options?.attempt ? { attempt: options.attempt, maxAttempts: options.maxAttempts ?? options.attempt } : {}),
+    ...(classification ? { outcome: classification.outcome, suppressed: classification.suppressed } : {}),
+    ...(exec.usage ? { usage: exec.usage } : {}),
+    outputExcerpt: excerptOutput(result.exitCode === 0 ? stdout : stderr || stdout),
+    logFile,
+  }).catch((err) => console.error(`[${new Date().toLocaleTimeString()}] Failed to record run history:`, err));
+  emitRunEvent({ runId: entry.id, name, at: endedAt, type: "end", status: getRunStatus(result), exitCode: result.exitCode });
+
   return result;
 }
 
+function getRunStatus(result: RunResult): RunStatus {
+  if (result.cancelled) return "cancelled";
+  if (result.timedOut) return "timed_out";
+  if (result.rateLimited) return "rate_limited";
+  return result.exitCode === 0 ? "success" : "error";
+}
+
+/** Record an occurrence that was not run (log file and history), so it shows up in history. */
+export function recordSkippedRun(name: string, reason: string, trigger?: string, group?: string): Promise<void> {
+  return recordUnstartedRun("skipped", name, reason, trigger, group);
+}
+
+/** Record an occurrence that failed before Claude was started, e.g. on a prompt template error. */
+export function recordFailedRun(name: string, reason: string, trigger?: string, group?: string): Promise<void> {
+  return recordUnstartedRun("error", name, reason, trigger, group);
+}
+
+async function recordUnstartedRun(
+  status: "skipped" | "error",
+  name: string,
+  reason: string,
+  trigger?: string,
+  group?: string
+): Promise<void> {
+  await mkdir(LOGS_DIR, { recursive: true });
+  const now = Date.now();
+  const timestamp = new Date(now).toISOString().replace(/[:.]/g, "-");
+  const logFile = join(LOGS_DIR, `${name}-${timestamp}.log`);
+  const output = [
+    `# ${name}`,
+    `Date: ${new Date().toISOString()}`,
+    ...(trigger ? [`Trigger: ${trigger}`] : []),
+    `Status: ${status === "skipped" ? "skipped" : "failed before start"} (${reason})`,
+  ].join("\n");
+
+  await Bun.write(logFile, output);
+  console.log(`[${new Date().toLocaleTimeString()}] ${status === "skipped" ? "Skipped" : "Failed"}: ${name} (${reason}) → ${logFile}`);
+
+  await recordRun({
+    id: crypto.randomUUID().slice(0, 8),
+    job: name,
+    group: group ?? "default",
+    sessionId: null,
+    ...(trigger ? { trigger } : {}),
+    startedAt: now,
+    endedAt: now,
+    durationMs: 0,
+    exitCode: null,
+    status,
+    model: null,
+    fallback: false,
+    reason,
+    outputExcerpt: status === "error" ? excerptOutput(reason) : "",
+    logFile,
+  }).catch((err) => console.error(`[${new Date().toLocaleTimeString()}] Failed to record run history:`, err));
+}
+
 export async function run(name: string, prompt: string, options?: RunOptions): Promise<RunResult> {
   if (options?.noSessionPersistence) {
     const key = `__stateless_${++statelessCounter}`;
@@ -376,7 +667,8 @@ export async function run(name: string, prompt: string, options?: RunOptions): P
 function prefixUserMessageWithClock(prompt: string): string {
   try {
     const settings = getSettings();
-    const prefix = buildClockPromptPrefix(new Date(), settings.timezoneOffsetMinutes);
+    const now = new Date();
+    const prefix = buildClockPromptPrefix(now, resolveOffsetMinutesAt(getSettingsTimezone(settings), now));
     return `${prefix}\n${prompt}`;
   } catch {
     const prefix = buildClockPromptPrefix(new Date(), 0);
@@ -385,7 +677,7 @@ function prefixUserMessageWithClock(prompt: string): string {
 }
 
 export async function runUserMessage(name: string, prompt: string, options?: RunOptions): Promise<RunResult> {
-  return run(name, prefixUserMessageWithClock(prompt), options);
+  return run(name, prefixUserMessageWithClock(prompt), { ...options, userMessage: true });
 }
 
 export async function bootstrap(): Promise<void> {
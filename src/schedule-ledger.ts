@@ -0,0 +1,95 @@
+import { join } from "path";
+import { mkdir, rename } from "fs/promises";
+
+const HEARTBEAT_DIR = join(process.cwd(), ".claude", "claudeclaw");
+const LEDGER_FILE = join(HEARTBEAT_DIR, "schedule-ledger.json");
+
+export interface JobLedgerEntry {
+  /** Scheduled occurrence (epoch ms) that last fired, not the wall time it ran. */
+  lastFiredAt: number;
+}
+
+interface Ledger {
+  /** Last time the scheduler evaluated jobs; bounds catch-up for jobs that never fired. */
+  lastTickAt: number;
+  jobs: Record<string, JobLedgerEntry>;
+}
+
+// One shared load: callers on a cold cache all get the same ledger object.
+let loading: Promise<Ledger> | null = null;
+// Saves go through one chain so they never race on the temp file.
+let writeChain: Promise<unknown> = Promise.resolve();
+
+async function read(): Promise<Ledger> {
+  try {
+    const raw = await Bun.file(LEDGER_FILE).json();
+    return {
+      lastTickAt: Number.isFinite(raw?.lastTickAt) ? Number(raw.lastTickAt) : 0,
+      jobs: raw?.jobs && typeof raw.jobs === "object" ? raw.jobs : {},
+    };
+  } catch {
+    return { lastTickAt: 0, jobs: {} };
+  }
+}
+
+function load(): Promise<Ledger> {
+  loading ??= read();
+  return loading;
+}
+
+function save(ledger: Ledger): Promise<void> {
+  const task = writeChain.then(async () => {
+    await mkdir(HEARTBEAT_DIR, { recursive: true });
+    const tmp = LEDGER_FILE + ".tmp";
+    await Bun.write(tmp, JSON.stringify(ledger, null, 2) + "\n");
+    await rename(tmp, LEDGER_FILE);
+  });
+  writeChain = task.catch(() => {});
+  return task;
+}
+
+export async function getLastTickAt(): Promise<number> {
+  return (await load()).lastTickAt;
+}
+
+export async function getLastFiredAt(jobName: string): Promise<number | null> {
+  const entry = (await load()).jobs[jobName];
+  return entry && Number.isFinite(entry.lastFiredAt) ? entry.lastFiredAt : null;
+}
+
+/**
+ * Record that a job fired for the given occurrence. Returns false when that
+ * occurrence (or a later one) was already recorded, e.g. by a previous daemon.
+ */
+export async function recordJobFired(jobName: string, occurrenceAt: number): Promise<boolean> {
+  const ledger = await load();
+  const previous = ledger.jobs[jobName]?.lastFiredAt ?? 0;
+  if (occurrenceAt <= previous) return false;
+  ledger.jobs[jobName] = { lastFiredAt: occurrenceAt };
+  await save(ledger);
+  return true;
+}
+
+/**
+ * Record a scheduler tick. Disabled jobs are marked as fired through `at`:
+ * they owe nothing for the time they sat paused, so catch-up after a resume
+ * starts from here.
+ */
+export async function recordTick(at: number, disabledJobs: string[] = []): Promise<void> {
+  const ledger = await load();
+  ledger.lastTickAt = Math.max(ledger.lastTickAt, at);
+  for (const name of disabledJobs) {
+    ledger.jobs[name] = { lastFiredAt: Math.max(ledger.jobs[name]?.lastFiredAt ?? 0, at) };
+  }
+  await save(ledger);
+}
+
+/** Drop entries for jobs that no longer exist. */
+export async function pruneLedger(jobNames: string[]): Promise<void> {
+  const ledger = await load();
+  const keep = new Set(jobNames);
+  const stale = Object.keys(ledger.jobs).filter((name) => !keep.has(name));
+  if (stale.length === 0) return;
+  for (const name of stale) delete ledger.jobs[name];
+  await save(ledger);
+}
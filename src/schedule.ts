@@ -0,0 +1,227 @@
+import { cronMatchesBetween, nextCronMatch } from "./cron";
+import { localTimeToUtc, type TimezoneSpec } from "./timezone";
+import { formatDuration } from "./duration";
+import { isExcludedDate, isInExcludeWindow, type ExcludeWindow } from "./exclusions";
+
+const MINUTE_MS = 60_000;
+// Consecutive excluded occurrences skipped before a schedule counts as never running.
+const MAX_EXCLUDED_SKIPS = 20_000;
+
+/** A wall-clock date/time from frontmatter; resolved in the job's timezone unless it carries an offset. */
+export interface LocalDateTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  /** Written as a bare date (`2026-11-03`). */
+  dateOnly: boolean;
+  /** Explicit UTC offset (`Z`, `+02:00`), overriding the timezone. */
+  offsetMinutes?: number;
+}
+
+export type JobSchedule =
+  | { kind: "cron"; expr: string }
+  | { kind: "every"; intervalMs: number }
+  | { kind: "at"; at: LocalDateTime }
+  // No schedule of its own: runs only when its upstream jobs succeed.
+  | { kind: "triggered" };
+
+/** Anything with a schedule and optional `start`/`end` bounds (inclusive). */
+export interface Schedulable {
+  schedule: JobSchedule;
+  start?: LocalDateTime;
+  end?: LocalDateTime;
+  /** `false` pauses the schedule until it is re-enabled. */
+  enabled?: boolean;
+  /** Paused until this instant; runs from then on, like a later `start`. */
+  pausedUntil?: LocalDateTime;
+  /** Jobs whose success also runs this one (`after:` / `on_success:`). */
+  upstream?: string[];
+  /** Times of day when occurrences are skipped. */
+  excludeWindows?: ExcludeWindow[];
+  /** Local dates (`YYYY-MM-DD`, or `MM-DD` every year) when occurrences are skipped. */
+  excludeDates?: string[];
+}
+
+const DATE_TIME_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?\s*(Z|[+-]\d{2}:?\d{2})?$/i;
+
+/** Parse `2026-11-03`, `2026-11-03T09:30` or `2026-11-03T09:30+01:00`; null if malformed. */
+export function parseLocalDateTime(raw: string): LocalDateTime | null {
+  const match = raw.trim().match(DATE_TIME_PATTERN);
+  if (!match) return null;
+  const [, y, mo, d, h, mi, s, offset] = match;
+  const value: LocalDateTime = {
+    year: Number(y),
+    month: Number(mo),
+    day: Number(d),
+    hour: h ? Number(h) : 0,
+    minute: mi ? Number(mi) : 0,
+    dateOnly: h === undefined,
+  };
+
+  const probe = new Date(Date.UTC(value.year, value.month - 1, value.day, value.hour, value.minute));
+  if (
+    probe.getUTCFullYear() !== value.year ||
+    probe.getUTCMonth() !== value.month - 1 ||
+    probe.getUTCDate() !== value.day ||
+    value.hour > 23 ||
+    value.minute > 59 ||
+    (s !== undefined && Number(s) !== 0)
+  ) {
+    return null;
+  }
+
+  if (offset) {
+    if (offset.toUpperCase() === "Z") {
+      value.offsetMinutes = 0;
+    } else {
+      const digits = offset.slice(1).replace(":", "");
+      const minutes = Number(digits.slice(0, 2)) * 60 + Number(digits.slice(2));
+      value.offsetMinutes = offset[0] === "-" ? -minutes : minutes;
+    }
+  }
+  return value;
+}
+
+export function formatLocalDateTimeValue(value: LocalDateTime): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const date = `${value.year}-${pad(value.month)}-${pad(value.day)}`;
+  if (value.dateOnly) return date;
+  const offset = value.offsetMinutes === undefined ? ""
+    : value.offsetMinutes === 0 ? "Z"
+    : `${value.offsetMinutes < 0 ? "-" : "+"}${pad(Math.floor(Math.abs(value.offsetMinutes) / 60))}:${pad(Math.abs(value.offsetMinutes) % 60)}`;
+  return `${date}T${pad(value.hour)}:${pad(value.minute)}${offset}`;
+}
+
+export function resolveLocalDateTime(value: LocalDateTime, timezone: TimezoneSpec): number {
+  const localMs = Date.UTC(value.year, value.month - 1, value.day, value.hour, value.minute);
+  if (value.offsetMinutes !== undefined) return localMs - value.offsetMinutes * MINUTE_MS;
+  return localTimeToUtc(localMs, timezone);
+}
+
+function resolveBounds(job: Schedulable, timezone: TimezoneSpec): { startMs: number; resumeMs: number; endMs: number } {
+  const startMs = job.start ? resolveLocalDateTime(job.start, timezone) : Number.NEGATIVE_INFINITY;
+  const resumeMs = job.pausedUntil ? resolveLocalDateTime(job.pausedUntil, timezone) : Number.NEGATIVE_INFINITY;
+  let endMs = Number.POSITIVE_INFINITY;
+  if (job.end) {
+    // A bare end date includes that whole day.
+    endMs = job.end.dateOnly
+      ? resolveLocalDateTime({ ...job.end, day: job.end.day + 1 }, timezone) - 1
+      : resolveLocalDateTime(job.end, timezone);
+  }
+  return { startMs, resumeMs, endMs };
+}
+
+function nextUnbounded(job: Schedulable, afterMs: number, startMs: number, timezone: TimezoneSpec): number | null {
+  const schedule = job.schedule;
+  switch (schedule.kind) {
+    case "cron":
+      return nextCronMatch(schedule.expr, new Date(afterMs), timezone)?.getTime() ?? null;
+    case "every": {
+      // Intervals are phased from `start` when given, otherwise from the epoch.
+      const anchor = Number.isFinite(startMs) ? startMs : 0;
+      if (afterMs < anchor) return anchor;
+      return anchor + (Math.floor((afterMs - anchor) / schedule.intervalMs) + 1) * schedule.intervalMs;
+    }
+    case "at": {
+      const at = resolveLocalDateTime(schedule.at, timezone);
+      return at > afterMs ? at : null;
+    }
+    case "triggered":
+      return null;
+  }
+}
+
+/** Whether `at` falls in one of the job's exclude windows or excluded dates. */
+export function isExcludedAt(job: Schedulable, at: Date, timezone: TimezoneSpec = 0): boolean {
+  return isInExcludeWindow(job.excludeWindows ?? [], timezone, at) || isExcludedDate(job.excludeDates ?? [], timezone, at);
+}
+
+/**
+ * The first run strictly after `after`, within the job's bounds, past any pause
+ * and outside its exclusions; null once it has expired or while disabled.
+ */
+export function nextRunAfter(job: Schedulable, after: Date, timezone: TimezoneSpec = 0): Date | null {
+  if (job.enabled === false) return null;
+  const { startMs, resumeMs, endMs } = resolveBounds(job, timezone);
+  const from = Math.max(after.getTime(), startMs - 1, resumeMs - 1);
+  let next = nextUnbounded(job, from, startMs, timezone);
+  // Excluded occurrences are dropped, not moved to the end of the exclusion.
+  for (let skipped = 0; next !== null && next <= endMs && isExcludedAt(job, new Date(next), timezone); skipped++) {
+    if (skipped >= MAX_EXCLUDED_SKIPS) return null;
+    next = nextUnbounded(job, next, startMs, timezone);
+  }
+  if (next === null || next > endMs) return null;
+  return new Date(next);
+}
+
+/** The next `count` runs after `after`, in order. */
+export function nextRuns(job: Schedulable, after: Date, count: number, timezone: TimezoneSpec = 0): Date[] {
+  const out: Date[] = [];
+  let cursor = after;
+  while (out.length < count) {
+    const next = nextRunAfter(job, cursor, timezone);
+    if (!next) break;
+    out.push(next);
+    cursor = next;
+  }
+  return out;
+}
+
+/** Runs in (`from`, `to`], oldest first; keeps only the latest `limit`. */
+export function runsBetween(job: Schedulable, from: Date, to: Date, limit: number, timezone: TimezoneSpec = 0): Date[] {
+  if (job.enabled === false) return [];
+  const { startMs, resumeMs, endMs } = resolveBounds(job, timezone);
+  const lower = new Date(Math.max(from.getTime(), startMs - 1, resumeMs - 1));
+  const upper = new Date(Math.min(to.getTime(), endMs));
+  if (lower.getTime() >= upper.getTime()) return [];
+
+  const hasExclusions = (job.excludeWindows?.length ?? 0) > 0 || (job.excludeDates?.length ?? 0) > 0;
+  if (job.schedule.kind === "cron" && !hasExclusions) {
+    return cronMatchesBetween(job.schedule.expr, lower, upper, limit, timezone);
+  }
+
+  const out: Date[] = [];
+  let cursor = lower;
+  if (job.schedule.kind === "every" && !hasExclusions) {
+    // Skip straight to the window's tail instead of walking every interval.
+    const span = upper.getTime() - lower.getTime();
+    const skip = Math.max(0, Math.floor(span / job.schedule.intervalMs) - limit - 1);
+    cursor = new Date(lower.getTime() + skip * job.schedule.intervalMs);
+  }
+  while (true) {
+    const next = nextRunAfter(job, cursor, timezone);
+    if (!next || next.getTime() > upper.getTime()) break;
+    out.push(next);
+    if (out.length > limit) out.shift();
+    cursor = next;
+  }
+  return out;
+}
+
+/** Whether the job runs at this (minute-aligned) instant. */
+export function isDueAt(job: Schedulable, minute: Date, timezone: TimezoneSpec = 0): boolean {
+  if (isExcludedAt(job, minute, timezone)) return false;
+  return nextRunAfter(job, new Date(minute.getTime() - MINUTE_MS), timezone)?.getTime() === minute.getTime();
+}
+
+/** Human-readable schedule: the cron expression, `every 90m`, `at 2026-11-03T09:30` or `after x`, plus bounds, upstream jobs, exclusions and pause. */
+export function formatSchedule(job: Schedulable): string {
+  const schedule = job.schedule;
+  const base = schedule.kind === "cron" ? schedule.expr
+    : schedule.kind === "every" ? `every ${formatDuration(schedule.intervalMs)}`
+    : schedule.kind === "at" ? `at ${formatLocalDateTimeValue(schedule.at)}`
+    : job.upstream?.length ? `after ${job.upstream.join(", ")}`
+    : "no schedule";
+  const bounds = [
+    job.start ? `from ${formatLocalDateTimeValue(job.start)}` : "",
+    job.end ? `until ${formatLocalDateTimeValue(job.end)}` : "",
+  ].filter(Boolean);
+  let text = bounds.length > 0 ? `${base}, ${bounds.join(" ")}` : base;
+  if (schedule.kind !== "triggered" && job.upstream?.length) text += `, or after ${job.upstream.join(", ")}`;
+  if (job.excludeWindows?.length || job.excludeDates?.length) text += ", with exclusions";
+  if (job.enabled === false) return `${text}, paused`;
+  return job.pausedUntil ? `${text}, paused until ${formatLocalDateTimeValue(job.pausedUntil)}` : text;
+}
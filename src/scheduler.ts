@@ -0,0 +1,146 @@
+import { isDueAt } from "./schedule";
+import type { Job } from "./jobs";
+import type { TimezoneSpec } from "./timezone";
+
+const MINUTE_MS = 60_000;
+// Fire a little after the boundary so an early timer never lands in the previous minute.
+const TICK_OFFSET_MS = 500;
+// Wall clock and monotonic clock disagreeing by more than this is a clock jump
+// (NTP step, manual change, or the machine sleeping), not event-loop lag.
+const CLOCK_JUMP_THRESHOLD_MS = 90_000;
+// Missed minutes replayed after an event-loop stall; longer gaps are left to catch-up.
+const MAX_STALL_MINUTES = 60;
+// Fired keys older than this are dropped; the high-water mark still prevents refires.
+const FIRED_KEY_RETENTION_MS = 6 * 60 * MINUTE_MS;
+
+export interface ClockJump {
+  direction: "forward" | "backward";
+  /** Wall-clock change not accounted for by elapsed monotonic time. */
+  driftMs: number;
+  from: number;
+  to: number;
+}
+
+export interface SchedulerOptions {
+  getJobs: () => Job[];
+  getTimezone: (job: Job) => TimezoneSpec;
+  /** Called once per (job, matching minute); `occurrenceAt` is the minute's epoch ms. */
+  onFire: (job: Job, occurrenceAt: number) => void;
+  /** Called after each tick's minutes are evaluated. */
+  onTick?: (at: number) => void;
+  onClockJump?: (jump: ClockJump) => void;
+}
+
+export interface SchedulerHandle {
+  stop: () => void;
+}
+
+function floorMinute(ms: number): number {
+  return Math.floor(ms / MINUTE_MS) * MINUTE_MS;
+}
+
+/**
+ * Evaluate job schedules on wall-clock minute boundaries. Each tick evaluates every
+ * minute since the last one it saw, so a slow tick never skips a minute, and a
+ * high-water mark plus per-(job, minute) keys make sure nothing fires twice —
+ * including after the clock steps backwards.
+ */
+export function startScheduler(opts: SchedulerOptions): SchedulerHandle {
+  const firedKeys = new Map<string, number>();
+  // Evaluate the minute the daemon starts in; fires already done by a previous
+  // daemon are filtered by the caller's ledger.
+  let lastEvaluatedMinute = floorMinute(Date.now()) - MINUTE_MS;
+  let lastWall = Date.now();
+  let lastMono = performance.now();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let stopped = false;
+
+  function fire(job: Job, minute: number) {
+    const key = `${job.name}@${minute}`;
+    if (firedKeys.has(key)) return;
+    firedKeys.set(key, minute);
+    try {
+      opts.onFire(job, minute);
+    } catch (err) {
+      console.error(`[${new Date().toLocaleTimeString()}] Scheduler: ${job.name} failed to start:`, err);
+    }
+  }
+
+  function evaluateMinute(minute: number) {
+    const at = new Date(minute);
+    for (const job of opts.getJobs()) {
+      if (isDueAt(job, at, opts.getTimezone(job))) fire(job, minute);
+    }
+  }
+
+  function pruneFiredKeys(now: number) {
+    for (const [key, minute] of firedKeys) {
+      if (minute < now - FIRED_KEY_RETENTION_MS) firedKeys.delete(key);
+    }
+  }
+
+  function detectClockJump(wall: number, mono: number): ClockJump | null {
+    const driftMs = (wall - lastWall) - (mono - lastMono);
+    if (Math.abs(driftMs) < CLOCK_JUMP_THRESHOLD_MS) return null;
+    return { direction: driftMs > 0 ? "forward" : "backward", driftMs, from: lastWall, to: wall };
+  }
+
+  function tick() {
+    const wall = Date.now();
+    const mono = performance.now();
+    const currentMinute = floorMinute(wall);
+    const jump = detectClockJump(wall, mono);
+    lastWall = wall;
+    lastMono = mono;
+
+    if (jump) {
+      console.warn(
+        `[${new Date().toLocaleTimeString()}] Scheduler: clock jumped ${jump.direction} by ${Math.round(Math.abs(jump.driftMs) / 1000)}s`
+      );
+      if (jump.direction === "forward") {
+        // Skipped minutes belong to catch-up, not to this tick.
+        lastEvaluatedMinute = Math.max(lastEvaluatedMinute, currentMinute - MINUTE_MS);
+      }
+      opts.onClockJump?.(jump);
+    }
+
+    if (currentMinute > lastEvaluatedMinute) {
+      const missed = (currentMinute - lastEvaluatedMinute) / MINUTE_MS - 1;
+      let from = lastEvaluatedMinute + MINUTE_MS;
+      if (missed > 0) {
+        console.warn(`[${new Date().toLocaleTimeString()}] Scheduler: tick late, evaluating ${Math.min(missed, MAX_STALL_MINUTES)} missed minute(s)`);
+        from = Math.max(from, currentMinute - MAX_STALL_MINUTES * MINUTE_MS);
+      }
+      for (let minute = from; minute <= currentMinute; minute += MINUTE_MS) evaluateMinute(minute);
+      lastEvaluatedMinute = currentMinute;
+    }
+
+    pruneFiredKeys(wall);
+    opts.onTick?.(wall);
+  }
+
+  function scheduleNext() {
+    if (stopped) return;
+    const now = Date.now();
+    const delay = floorMinute(now) + MINUTE_MS + TICK_OFFSET_MS - now;
+    timer = setTimeout(() => {
+      try {
+        tick();
+      } catch (err) {
+        console.error(`[${new Date().toLocaleTimeString()}] Scheduler tick failed:`, err);
+      }
+      scheduleNext();
+    }, delay);
+  }
+
+  tick();
+  scheduleNext();
+
+  return {
+    stop: () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      timer = null;
+    },
+  };
+}
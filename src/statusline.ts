@@ -5,7 +5,9 @@ const HEARTBEAT_DIR = join(process.cwd(), ".claude", "claudeclaw");
 // Write state.json so the statusline script can read fresh data
 export interface StateData {
   heartbeat?: { nextAt: number };
-  jobs: { name: string; nextAt: number }[];
+  /** Enabled heartbeats from `heartbeats` in settings. */
+  heartbeats?: { name: string; nextAt: number }[];
+  jobs: { name: string; nextAt: number | null; paused?: boolean }[];
   security: string;
   telegram: boolean;
   startedAt: number;
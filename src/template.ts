@@ -0,0 +1,124 @@
+import { isAbsolute, join } from "path";
+import { formatLocalDateTime, resolveOffsetMinutesAt, shiftDateToOffset, type TimezoneSpec } from "./timezone";
+
+export interface TemplateContext {
+  now: Date;
+  /** Zone for `{{now}}` and `{{date:...}}`. */
+  timezone: TimezoneSpec;
+  /** `{{job.*}}` fields. */
+  job?: Record<string, string | undefined>;
+  /** Output of the previous successful run; only loaded when the prompt asks for it. */
+  lastOutput?: () => Promise<string | null>;
+  /** Output of one upstream job, or all of them together (null); unset for a job with none. */
+  upstreamOutput?: (name: string | null) => Promise<string | null>;
+  env?: Record<string, string | undefined>;
+  /** Other variables by exact name, e.g. `when_output`. */
+  vars?: Record<string, string>;
+}
+
+// A leading backslash (`\{{now}}`) escapes a placeholder.
+const VARIABLE_PATTERN = /\\?\{\{\s*([^{}]+?)\s*\}\}/g;
+const DATE_TOKEN_PATTERN = /YYYY|YY|MMMM|MMM|MM|M|DD|D|dddd|ddd|HH|H|mm|ss/g;
+const MONTHS = ["January", "February", "March", "April", "May", "June", "July", "August", "September", "October", "November", "December"];
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+function pad2(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+/** Format `date` in the given zone with YYYY, YY, MMMM, MMM, MM, M, DD, D, dddd, ddd, HH, H, mm and ss. */
+export function formatTemplateDate(date: Date, format: string, timezone: TimezoneSpec): string {
+  const d = shiftDateToOffset(date, resolveOffsetMinutesAt(timezone, date));
+  const values: Record<string, string> = {
+    YYYY: String(d.getUTCFullYear()),
+    YY: String(d.getUTCFullYear()).slice(-2),
+    MMMM: MONTHS[d.getUTCMonth()],
+    MMM: MONTHS[d.getUTCMonth()].slice(0, 3),
+    MM: pad2(d.getUTCMonth() + 1),
+    M: String(d.getUTCMonth() + 1),
+    DD: pad2(d.getUTCDate()),
+    D: String(d.getUTCDate()),
+    dddd: WEEKDAYS[d.getUTCDay()],
+    ddd: WEEKDAYS[d.getUTCDay()].slice(0, 3),
+    HH: pad2(d.getUTCHours()),
+    H: String(d.getUTCHours()),
+    mm: pad2(d.getUTCMinutes()),
+    ss: pad2(d.getUTCSeconds()),
+  };
+  return format.replace(DATE_TOKEN_PATTERN, (token) => values[token]);
+}
+
+/**
+ * A variable's value, or why it has none; null for a name outside the
+ * template's namespaces, e.g. `{{ user.name }}` in a prompt about Jinja.
+ */
+async function resolveVariable(name: string, context: TemplateContext): Promise<{ value: string } | { missing: string } | null> {
+  if (context.vars && Object.hasOwn(context.vars, name)) return { value: context.vars[name] };
+  if (name === "now") {
+    return { value: formatLocalDateTime(context.now, resolveOffsetMinutesAt(context.timezone, context.now)) };
+  }
+  if (name === "date" || name.startsWith("date:")) {
+    const format = name === "date" ? "YYYY-MM-DD" : name.slice("date:".length);
+    return { value: formatTemplateDate(context.now, format, context.timezone) };
+  }
+  if (name.startsWith("job.")) {
+    const value = context.job?.[name.slice("job.".length)];
+    return value === undefined ? { missing: context.job ? "no such job field" : "not a job prompt" } : { value };
+  }
+  if (name === "last_output") {
+    const value = context.lastOutput ? await context.lastOutput() : null;
+    return value === null ? { missing: "no previous successful run" } : { value };
+  }
+  if (name === "upstream_output" || name.startsWith("upstream.")) {
+    if (!context.upstreamOutput) return { missing: "the job has no upstream jobs" };
+    const job = name === "upstream_output" ? null : name.slice("upstream.".length);
+    const value = await context.upstreamOutput(job);
+    return value === null ? { missing: job === null ? "no successful upstream run" : "not an upstream job, or no successful run" } : { value };
+  }
+  if (name.startsWith("env.")) {
+    const value = (context.env ?? process.env)[name.slice("env.".length)];
+    return value === undefined ? { missing: "not set" } : { value };
+  }
+  if (name.startsWith("file:")) {
+    const path = name.slice("file:".length).trim();
+    const file = Bun.file(isAbsolute(path) ? path : join(process.cwd(), path));
+    return (await file.exists()) ? { value: (await file.text()).trim() } : { missing: "file not found" };
+  }
+  if (name === "when_output") return { missing: "the job has no when: precheck" };
+  return null;
+}
+
+/**
+ * Fill in `{{variable}}` placeholders. `{{name|fallback}}` uses the fallback
+ * when the variable has no value; otherwise every unresolved variable is
+ * listed in one error, so a prompt never runs half-rendered. Placeholders
+ * that aren't template variables, and escaped ones (`\{{now}}`), are left
+ * as written, without the backslash.
+ */
+export async function renderTemplate(template: string, context: TemplateContext): Promise<string> {
+  const values = new Map<string, string>();
+  const missing: string[] = [];
+
+  for (const [placeholder, expression] of template.matchAll(VARIABLE_PATTERN)) {
+    if (values.has(placeholder)) continue;
+    if (placeholder.startsWith("\\")) {
+      values.set(placeholder, placeholder.slice(1));
+      continue;
+    }
+    const bar = expression.indexOf("|");
+    const name = (bar >= 0 ? expression.slice(0, bar) : expression).trim();
+    const resolved = await resolveVariable(name, context);
+    if (resolved === null) {
+      values.set(placeholder, placeholder);
+    } else if ("value" in resolved) {
+      values.set(placeholder, resolved.value);
+    } else if (bar >= 0) {
+      values.set(placeholder, expression.slice(bar + 1).trim().replace(/^(["'])(.*)\1$/, "$2"));
+    } else if (!missing.some((m) => m.startsWith(`{{${name}}}`))) {
+      missing.push(`{{${name}}} (${resolved.missing})`);
+    }
+  }
+
+  if (missing.length > 0) throw new Error(`Prompt template: missing ${missing.join(", ")}`);
+  return template.replace(VARIABLE_PATTERN, (placeholder) => values.get(placeholder) ?? placeholder);
+}
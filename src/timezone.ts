@@ -75,6 +75,15 @@ export function buildClockPromptPrefix(date: Date, timezoneOffsetMinutes: number
   return `[${timestamp} ${offsetLabel}]`;
 }
 
+/** `YYYY-MM-DD HH:MM` wall-clock time at the given offset. */
+export function formatLocalDateTime(date: Date, timezoneOffsetMinutes: number): string {
+  const shifted = shiftDateToOffset(date, timezoneOffsetMinutes);
+  return [
+    `${shifted.getUTCFullYear()}-${pad2(shifted.getUTCMonth() + 1)}-${pad2(shifted.getUTCDate())}`,
+    `${pad2(shifted.getUTCHours())}:${pad2(shifted.getUTCMinutes())}`,
+  ].join(" ");
+}
+
 export function getDayAndMinuteAtOffset(date: Date, timezoneOffsetMinutes: number): { day: number; minute: number } {
   const shifted = shiftDateToOffset(date, timezoneOffsetMinutes);
   return {
@@ -83,15 +92,33 @@ export function getDayAndMinuteAtOffset(date: Date, timezoneOffsetMinutes: numbe
   };
 }
 
-function getCurrentOffsetMinutesForIanaTimezone(timezone: unknown): number | null {
-  if (typeof timezone !== "string" || !timezone.trim()) return null;
-  try {
-    const parts = new Intl.DateTimeFormat("en-US", {
+/**
+ * A schedule's timezone: a fixed offset in minutes, or a zone name
+ * ("UTC+2" or an IANA name like "Europe/Berlin") resolved per instant.
+ */
+export type TimezoneSpec = number | string;
+
+const offsetFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function offsetFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = offsetFormatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
       timeZone: timezone,
       timeZoneName: "shortOffset",
       hour: "2-digit",
-    }).formatToParts(new Date());
+    });
+    offsetFormatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+export function getOffsetMinutesForIanaTimezoneAt(timezone: unknown, at: Date): number | null {
+  if (typeof timezone !== "string" || !timezone.trim()) return null;
+  try {
+    const parts = offsetFormatter(timezone).formatToParts(at);
     const token = parts.find((p) => p.type === "timeZoneName")?.value ?? "";
+    if (token === "GMT") return 0;
     const match = token.match(/^GMT([+-])(\d{1,2})(?::?([0-5]\d))?$/i);
     if (!match) return null;
     const sign = match[1] === "-" ? -1 : 1;
@@ -103,3 +130,66 @@ function getCurrentOffsetMinutesForIanaTimezone(timezone: unknown): number | nul
     return null;
   }
 }
+
+export function getCurrentOffsetMinutesForIanaTimezone(timezone: unknown): number | null {
+  return getOffsetMinutesForIanaTimezoneAt(timezone, new Date());
+}
+
+/** True for names that need per-instant resolution (IANA zones, not fixed UTC±N). */
+export function isIanaTimezone(value: unknown): value is string {
+  const normalized = normalizeTimezoneName(value);
+  return normalized !== "" && parseUtcOffsetMinutes(normalized) == null;
+}
+
+/** UTC offset in effect for `timezone` at the given instant (DST-aware for IANA zones). */
+export function resolveOffsetMinutesAt(timezone: TimezoneSpec, at: Date): number {
+  if (typeof timezone === "number") return clampTimezoneOffsetMinutes(timezone);
+  const fixed = parseUtcOffsetMinutes(timezone);
+  if (fixed != null) return fixed;
+  return getOffsetMinutesForIanaTimezoneAt(timezone, at) ?? 0;
+}
+
+const HALF_DAY_MS = 12 * 60 * 60_000;
+
+/**
+ * Convert a wall-clock time (expressed as "shifted" epoch ms, i.e. UTC fields
+ * read as local fields) to a real instant. Ambiguous times during a DST
+ * fall-back resolve to the first occurrence; times skipped by a spring-forward
+ * resolve to the first minute after the gap.
+ */
+export function localTimeToUtc(localMs: number, timezone: TimezoneSpec): number {
+  return localTimeToUtcInstants(localMs, timezone)[0];
+}
+
+/**
+ * Every instant a wall-clock time occurs at, earliest first: two during a
+ * DST fall-back, otherwise one (the first minute after the gap for a time a
+ * spring-forward skips).
+ */
+export function localTimeToUtcInstants(localMs: number, timezone: TimezoneSpec): number[] {
+  if (typeof timezone === "number" || parseUtcOffsetMinutes(timezone) != null) {
+    return [localMs - resolveOffsetMinutesAt(timezone, new Date(localMs)) * 60_000];
+  }
+
+  const before = resolveOffsetMinutesAt(timezone, new Date(localMs - HALF_DAY_MS));
+  const after = resolveOffsetMinutesAt(timezone, new Date(localMs + HALF_DAY_MS));
+  const valid = [...new Set([before, after])]
+    .map((offset) => ({ offset, utc: localMs - offset * 60_000 }))
+    .filter(({ offset, utc }) => resolveOffsetMinutesAt(timezone, new Date(utc)) === offset)
+    .map(({ utc }) => utc);
+  if (valid.length > 0) return valid.sort((a, b) => a - b);
+
+  // In a gap: the transition lies between the two candidate instants.
+  let lo = localMs - after * 60_000;
+  let hi = localMs - before * 60_000;
+  while (hi - lo > 60_000) {
+    const mid = lo + Math.floor((hi - lo) / 120_000) * 60_000;
+    if (resolveOffsetMinutesAt(timezone, new Date(mid)) === after) hi = mid;
+    else lo = mid;
+  }
+  return [hi];
+}
+
+export function getDayAndMinuteInTimezone(date: Date, timezone: TimezoneSpec): { day: number; minute: number } {
+  return getDayAndMinuteAtOffset(date, resolveOffsetMinutesAt(timezone, date));
+}
@@ -30,7 +30,7 @@ export const pageScript = String.raw`    const $ = (id) => document.getElementBy
     const quickOpenCreate = $("quick-open-create");
     const quickBackJobs = $("quick-back-jobs");
     const quickJobOffset = $("quick-job-offset");
-    const quickJobRecurring = $("quick-job-recurring");
+    const quickJobKind = $("quick-job-kind");
     const quickJobPrompt = $("quick-job-prompt");
     const quickJobSubmit = $("quick-job-submit");
     const quickJobStatus = $("quick-job-status");
@@ -39,6 +39,7 @@ export const pageScript = String.raw`    const $ = (id) => document.getElementBy
     const quickJobPreview = $("quick-job-preview");
     const quickJobCount = $("quick-job-count");
     const quickJobsList = $("quick-jobs-list");
+    const quickJobsRejected = $("quick-jobs-rejected");
     const jobsBubbleEl = $("jobs-bubble");
     const uptimeBubbleEl = $("uptime-bubble");
     let hbBusy = false;
@@ -49,6 +50,9 @@ export const pageScript = String.raw`    const $ = (id) => document.getElementBy
     let quickViewChosenByUser = false;
     let expandedJobName = "";
     let lastRenderedJobs = [];
+    let lastActiveRuns = [];
+    // Latest tool call or text of each in-flight run, from /api/runs/events.
+    const liveActivity = {};
     let scrollAnimFrame = 0;
     let heartbeatTimezoneOffsetMinutes = 0;
 
@@ -176,16 +180,20 @@ export const pageScript = String.raw`    const $ = (id) => document.getElementBy
         value: cap(state.security.level),
       });
 
-      if (state.heartbeat.enabled) {
-        const nextInMs = state.heartbeat.nextInMs;
-        const nextLabel = nextInMs == null
+      function heartbeatValue(hb) {
+        const nextLabel = hb.nextInMs == null
           ? "Next run in --"
-          : ("Next run in " + fmtDur(nextInMs));
+          : ("Next run in " + fmtDur(hb.nextInMs));
+        const quiet = hb.last24h ? hb.last24h.suppressed : 0;
+        return quiet > 0 ? nextLabel + " · " + quiet + " quiet in 24h" : nextLabel;
+      }
+
+      if (state.heartbeat.enabled) {
         pills.push({
           cls: "ok",
           icon: "💓",
           label: "Heartbeat",
-          value: nextLabel,
+          value: heartbeatValue(state.heartbeat),
         });
       } else {
         pills.push({
@@ -196,6 +204,15 @@ export const pageScript = String.raw`    const $ = (id) => document.getElementBy
         });
       }
 
+      for (const hb of state.heartbeats || []) {
+        pills.push({
+          cls: hb.enabled ? "ok" : "bad",
+          icon: "💓",
+          label: hb.name + (hb.model ? " (" + hb.model + ")" : ""),
+          value: hb.enabled ? heartbeatValue(hb) : "Disabled",
+        });
+      }
+
       pills.push({
         cls: state.telegram.configured ? "ok" : "warn",
         icon: "✈️",
@@ -224,68 +241,6 @@ export const pageScript = String.raw`    const $ = (id) => document.getElementBy
       return ss + "s";
     }
 
-    function matchCronField(field, value) {
-      const parts = String(field || "").split(",");
-      for (const partRaw of parts) {
-        const part = String(partRaw || "").trim();
-        if (!part) continue;
-        const pair = part.split("/");
-        const range = pair[0];
-        const stepStr = pair[1];
-        const step = stepStr ? Number.parseInt(stepStr, 10) : 1;
-        if (!Number.isInteger(step) || step <= 0) continue;
-
-        if (range === "*") {
-          if (value % step === 0) return true;
-          continue;
-        }
-
-        if (range.includes("-")) {
-          const bounds = range.split("-");
-          const lo = Number.parseInt(bounds[0], 10);
-          const hi = Number.parseInt(bounds[1], 10);
-          if (!Number.isInteger(lo) || !Number.isInteger(hi)) continue;
-          if (value >= lo && value <= hi && (value - lo) % step === 0) return true;
-          continue;
-        }
-
-        if (Number.parseInt(range, 10) === value) return true;
-      }
-      return false;
-    }
-
-    function cronMatchesAt(schedule, date) {
-      const parts = String(schedule || "").trim().split(/\s+/);
-      if (parts.length !== 5) return false;
-      const shifted = toOffsetDate(date);
-      const d = {
-        minute: shifted.getUTCMinutes(),
-        hour: shifted.getUTCHours(),
-        dayOfMonth: shifted.getUTCDate(),
-        month: shifted.getUTCMonth() + 1,
-        dayOfWeek: shifted.getUTCDay(),
-      };
-
-      return (
-        matchCronField(parts[0], d.minute) &&
-        matchCronField(parts[1], d.hour) &&
-        matchCronField(parts[2], d.dayOfMonth) &&
-        matchCronField(parts[3], d.month) &&
-        matchCronField(parts[4], d.dayOfWeek)
-      );
-    }
-
-    function nextRunAt(schedule, now) {
-      const probe = new Date(now);
-      probe.setSeconds(0, 0);
-      probe.setMinutes(probe.getMinutes() + 1);
-      for (let i = 0; i < 2880; i++) {
-        if (cronMatchesAt(schedule, probe)) return new Date(probe);
-        probe.setMinutes(probe.getMinutes() + 1);
-      }
-      return null;
-    }
-
     function clockFromSchedule(schedule) {
       const parts = String(schedule || "").trim().split(/\s+/);
       if (parts.length < 2) return schedule;
@@ -304,6 +259,15 @@ export const pageScript = String.raw`    const $ = (id) => document.getElementBy
       });
     }
 
+    // Job files the daemon couldn't load, with the reason, so a typo doesn't just make a job vanish.
+    function renderRejectedJobs(rejected) {
+      if (!quickJobsRejected) return;
+      const items = Array.isArray(rejected) ? rejected : [];
+      quickJobsRejected.innerHTML = items
+        .map((r) => '<div class="quick-jobs-rejected-item">Not loaded: ' + esc(r.file || r.name || "") + " · " + esc(r.error || "") + "</div>")
+        .join("");
+    }
+
     function renderJobsList(jobs) {
       if (!quickJobsList) return;
       const items = Array.isArray(jobs) ? jobs.slice() : [];
@@ -318,7 +282,7 @@ export const pageScript = String.raw`    const $ = (id) => document.getElementBy
       const withNext = items
         .map((j) => ({
           ...j,
-          _nextAt: nextRunAt(j.schedule, now),
+          _nextAt: j.nextAt ? new Date(j.nextAt) : null,
         }))
         .sort((a, b) => {
           const ta = a._nextAt ? a._nextAt.getTime() : Number.POSITIVE_INFINITY;
@@ -336,8 +300,16 @@ export const pageScript = String.raw`    const $ = (id) => document.getElementBy
       quickJobsList.innerHTML = withNext
         .map((j) => {
           const nextAt = j._nextAt;
-          const cooldown = nextAt ? fmtDur(nextAt.getTime() - now.getTime()) : "n/a";
-          const time = clockFromSchedule(j.schedule || "");
+          const activeRun = lastActiveRuns.find((r) => r.name === j.name);
+          const cooldown = activeRun
+            ? "running " + fmtDur(now.getTime() - activeRun.startedAt)
+            : j.paused ? "paused"
+            : j.kind === "triggered" ? "chained"
+            : nextAt ? fmtDur(nextAt.getTime() - now.getTime()) : "expired";
+          // Non-cron jobs and jobs with their own timezone: show the next run in the dashboard's clock instead.
+          const time = (j.timezone || j.kind !== "cron") && nextAt
+            ? formatOffsetDate(nextAt, { hour: "numeric", minute: "2-digit", hour12: use12Hour })
+            : clockFromSchedule(j.schedule || "");
           const expanded = expandedJobName && expandedJobName === (j.name || "");
           const nextRunText = nextAt
             ? formatOffsetDate(nextAt, {
@@ -347,18 +319,33 @@ export const pageScript = String.raw`    const $ = (id) => document.getElementBy
                 hour12: use12Hour,
               })
             : "--";
+          const upcomingText = (Array.isArray(j.upcoming) ? j.upcoming : [])
+            .map((at) => formatOffsetDate(new Date(at), {
+              month: "short",
+              day: "numeric",
+              weekday: "short",
+              hour: "numeric",
+              minute: "2-digit",
+              hour12: use12Hour,
+            }))
+            .join(" · ");
           return (
-          '<div class="quick-job-item">' +
+          '<div class="quick-job-item' + (j.paused ? " is-paused" : "") + '">' +
             '<div class="quick-job-item-main">' +
               '<button class="quick-job-line" type="button" data-toggle-job="' + escAttr(j.name || "") + '">' +
                 '<span class="quick-job-item-name">' + esc(j.name || "job") + "</span>" +
                 '<span class="quick-job-item-time">' + esc(time || "--") + "</span>" +
                 '<span class="quick-job-item-cooldown">' + esc(cooldown) + "</span>" +
               "</button>" +
+              (activeRun && liveActivity[activeRun.id]
+                ? '<div class="quick-job-item-live">' + esc(liveActivity[activeRun.id]) + "</div>"
+                : "") +
               (expanded ? (
                 '<div class="quick-job-item-details">' +
-                  '<div>Schedule: ' + esc(j.schedule || "--") + "</div>" +
+                  '<div>Schedule: ' + esc(j.schedule || "--") + (j.timezone ? " (" + esc(j.timezone) + ")" : "") + "</div>" +
+                  (j.pausedUntil ? '<div>Paused until: ' + esc(j.pausedUntil) + "</div>" : "") +
                   '<div>Next run: ' + esc(nextRunText) + "</div>" +
+                  (upcomingText ? '<div>Upcoming: ' + esc(upcomingText) + "</div>" : "") +
                   '<div>Prompt:</div>' +
                   '<pre class="quick-job-prompt-full">' + esc(String(j.prompt || "")) + "</pre>" +
                 "</div>"
@@ -366,6 +353,12 @@ export const pageScript = String.raw`    const $ = (id) => document.getElementBy
                 ""
               )) +
             "</div>" +
+            (activeRun
+              ? '<button class="quick-job-cancel" type="button" data-cancel-run="' + escAttr(activeRun.id) + '">Cancel</button>'
+              : '<button class="quick-job-run" type="button" data-run-job="' + escAttr(j.name || "") + '">Run</button>') +
+            (j.paused
+              ? '<button class="quick-job-pause" type="button" data-resume-job="' + escAttr(j.name || "") + '">Resume</button>'
+              : '<button class="quick-job-pause" type="button" data-pause-job="' + escAttr(j.name || "") + '">Pause</button>') +
             '<button class="quick-job-delete" type="button" data-delete-job="' + escAttr(j.name || "") + '">Delete</button>' +
           "</div>"
           );
@@ -401,10 +394,12 @@ export const pageScript = String.raw`    const $ = (id) => document.getElementBy
             '<div class="side-label">Jobs</div>';
         }
         lastRenderedJobs = Array.isArray(state.jobs) ? state.jobs : [];
+        lastActiveRuns = Array.isArray(state.activeRuns) ? state.activeRuns : [];
         if (expandedJobName && !lastRenderedJobs.some((job) => String(job.name || "") === expandedJobName)) {
           expandedJobName = "";
         }
         renderJobsList(lastRenderedJobs);
+        renderRejectedJobs(state.rejectedJobs);
 
         syncQuickViewForJobs(state.jobs);
         if (uptimeBubbleEl) {
@@ -419,6 +414,7 @@ export const pageScript = String.raw`    const $ = (id) => document.getElementBy
           jobsBubbleEl.innerHTML = '<div class="side-icon">🗂️</div><div class="side-value">-</div><div class="side-label">Jobs</div>';
         }
         lastRenderedJobs = [];
+        lastActiveRuns = [];
         expandedJobName = "";
         renderJobsList([]);
 
@@ -764,13 +760,14 @@ export const pageScript = String.raw`    const $ = (id) => document.getElementBy
       const hour = dt.getUTCHours();
       const minute = dt.getUTCMinutes();
       const time = String(hour).padStart(2, "0") + ":" + String(minute).padStart(2, "0");
+      const date = dt.toISOString().slice(0, 10);
       const dayLabel = isSameOffsetDay(targetInstant, new Date()) ? "Today" : "Tomorrow";
       const human = formatOffsetDate(targetInstant, {
         hour: "numeric",
         minute: "2-digit",
         hour12: use12Hour,
       });
-      return { hour, minute, time, dayLabel, human };
+      return { hour, minute, time, date, dayLabel, human };
     }
 
     function formatPreviewTime(hour, minute) {
@@ -807,13 +804,18 @@ export const pageScript = String.raw`    const $ = (id) => document.getElementBy
         }
         const target = computeTimeFromOffset(offset);
         const human = formatPreviewTime(target.hour, target.minute) || target.time;
-        quickJobPreview.textContent = "Runs in " + formatOffsetDuration(offset) + " (" + target.dayLabel + " " + human + ")";
+        const kind = quickJobKind ? quickJobKind.value : "daily";
+        const suffix = kind === "once" ? ", once"
+          : kind === "every" ? ", then every " + formatOffsetDuration(offset)
+          : ", then daily";
+        quickJobPreview.textContent = "Runs in " + formatOffsetDuration(offset) + " (" + target.dayLabel + " " + human + ")" + suffix;
         quickJobPreview.style.color = "#a8f1ca";
       }
     }
 
     if (quickJobOffset) quickJobOffset.addEventListener("input", updateQuickJobUi);
     if (quickJobPrompt) quickJobPrompt.addEventListener("input", updateQuickJobUi);
+    if (quickJobKind) quickJobKind.addEventListener("change", updateQuickJobUi);
 
     document.addEventListener("click", (event) => {
       const target = event.target;
@@ -861,6 +863,73 @@ export const pageScript = String.raw`    const $ = (id) => document.getElementBy
       }
     });
 
+    document.addEventListener("click", async (event) => {
+      const target = event.target;
+      if (!(target instanceof HTMLElement)) return;
+      const button = target.closest("[data-cancel-run]");
+      if (!button || !(button instanceof HTMLButtonElement)) return;
+      const id = button.getAttribute("data-cancel-run") || "";
+      if (!id) return;
+      button.disabled = true;
+      if (quickJobsStatus) quickJobsStatus.textContent = "Cancelling run...";
+      try {
+        const res = await fetch("/api/runs/" + encodeURIComponent(id) + "/cancel", { method: "POST" });
+        const out = await res.json();
+        if (!out.ok) throw new Error(out.error || "cancel failed");
+        if (quickJobsStatus) quickJobsStatus.textContent = "Cancelled run " + id;
+        await refreshState();
+      } catch (err) {
+        if (quickJobsStatus) quickJobsStatus.textContent = "Failed: " + String(err instanceof Error ? err.message : err);
+      } finally {
+        button.disabled = false;
+      }
+    });
+
+    document.addEventListener("click", async (event) => {
+      const target = event.target;
+      if (!(target instanceof HTMLElement)) return;
+      const button = target.closest("[data-run-job]");
+      if (!button || !(button instanceof HTMLButtonElement)) return;
+      const name = button.getAttribute("data-run-job") || "";
+      if (!name) return;
+      button.disabled = true;
+      if (quickJobsStatus) quickJobsStatus.textContent = "Starting " + name + "...";
+      try {
+        const res = await fetch("/api/jobs/" + encodeURIComponent(name) + "/run", { method: "POST" });
+        const out = await res.json();
+        if (!out.ok) throw new Error(out.error || "run failed");
+        if (quickJobsStatus) quickJobsStatus.textContent = "Started " + name;
+        await refreshState();
+      } catch (err) {
+        if (quickJobsStatus) quickJobsStatus.textContent = "Failed: " + String(err instanceof Error ? err.message : err);
+      } finally {
+        button.disabled = false;
+      }
+    });
+
+    document.addEventListener("click", async (event) => {
+      const target = event.target;
+      if (!(target instanceof HTMLElement)) return;
+      const button = target.closest("[data-pause-job], [data-resume-job]");
+      if (!button || !(button instanceof HTMLButtonElement)) return;
+      const action = button.hasAttribute("data-pause-job") ? "pause" : "resume";
+      const name = button.getAttribute("data-" + action + "-job") || "";
+      if (!name) return;
+      button.disabled = true;
+      if (quickJobsStatus) quickJobsStatus.textContent = (action === "pause" ? "Pausing " : "Resuming ") + name + "...";
+      try {
+        const res = await fetch("/api/jobs/" + encodeURIComponent(name) + "/" + action, { method: "POST" });
+        const out = await res.json();
+        if (!out.ok) throw new Error(out.error || action + " failed");
+        if (quickJobsStatus) quickJobsStatus.textContent = (action === "pause" ? "Paused " : "Resumed ") + name;
+        await refreshState();
+      } catch (err) {
+        if (quickJobsStatus) quickJobsStatus.textContent = "Failed: " + String(err instanceof Error ? err.message : err);
+      } finally {
+        button.disabled = false;
+      }
+    });
+
     if (quickOpenCreate) {
       quickOpenCreate.addEventListener("click", () => setQuickView("create", { scroll: true, user: true }));
     }
@@ -886,9 +955,11 @@ export const pageScript = String.raw`    const $ = (id) => document.getElementBy
             method: "POST",
             headers: { "Content-Type": "application/json" },
             body: JSON.stringify({
+              kind: quickJobKind ? quickJobKind.value : "daily",
               time: target.time,
+              date: target.date,
+              everyMinutes: offset,
               prompt,
-              recurring: quickJobRecurring ? quickJobRecurring.checked : true,
             }),
           });
           const out = await res.json();
@@ -925,6 +996,28 @@ export const pageScript = String.raw`    const $ = (id) => document.getElementBy
     refreshState();
     setInterval(refreshState, 1000);
 
+    if (typeof EventSource !== "undefined") {
+      const runEvents = new EventSource("/api/runs/events");
+      runEvents.onmessage = (message) => {
+        let event;
+        try {
+          event = JSON.parse(message.data);
+        } catch {
+          return;
+        }
+        if (event.type === "tool_use") {
+          liveActivity[event.runId] = event.tool + (event.summary ? ": " + event.summary : "");
+        } else if (event.type === "text") {
+          liveActivity[event.runId] = String(event.text || "").replace(/\s+/g, " ").slice(0, 160);
+        } else if (event.type === "end") {
+          delete liveActivity[event.runId];
+        } else {
+          return;
+        }
+        rerenderJobsList();
+      };
+    }
+
     // === Main Tab Switching (Jobs / Sessions / Tasks) ===
     const tabJobs = $("tab-jobs");
     const tabSessions = $("tab-sessions");
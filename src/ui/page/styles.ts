@@ -212,6 +212,22 @@ export const pageStyles = String.raw`    :root {
       letter-spacing: 0.03em;
       text-transform: uppercase;
     }
+    .quick-job-item-live {
+      margin-top: 4px;
+      font-family: "JetBrains Mono", monospace;
+      font-size: 11px;
+      color: #9fd6ff;
+      white-space: nowrap;
+      overflow: hidden;
+      text-overflow: ellipsis;
+    }
+    .quick-jobs-rejected-item {
+      margin-top: 6px;
+      font-family: "JetBrains Mono", monospace;
+      font-size: 11px;
+      color: #ffb4a8;
+      overflow-wrap: anywhere;
+    }
     .quick-jobs-next {
       margin-top: 6px;
       font-family: "JetBrains Mono", monospace;
@@ -369,6 +385,24 @@ export const pageStyles = String.raw`    :root {
       outline: 1px solid #7dc5ff88;
       outline-offset: 2px;
     }
+    .quick-kind {
+      flex: 0 0 auto;
+      min-height: 28px;
+      padding: 0 10px;
+      border: 1px solid #67f0b560;
+      border-radius: 999px;
+      background: #11342455;
+      color: #67f0b5;
+      font-family: "JetBrains Mono", monospace;
+      font-size: 11px;
+      letter-spacing: 0.03em;
+      text-transform: uppercase;
+      cursor: pointer;
+    }
+    .quick-kind:focus-visible {
+      outline: 1px solid #7dc5ff88;
+      outline-offset: 2px;
+    }
     .quick-prompt {
       width: 100%;
       min-height: 106px;
@@ -460,7 +494,9 @@ export const pageStyles = String.raw`    :root {
     }
     .quick-job-item {
       display: grid;
-      grid-template-columns: minmax(0, 1fr) auto;
+      grid-template-columns: minmax(0, 1fr);
+      grid-auto-flow: column;
+      grid-auto-columns: auto;
       gap: 10px;
       padding: 8px 10px;
       border: 1px solid #ffffff1d;
@@ -549,6 +585,84 @@ export const pageStyles = String.raw`    :root {
       cursor: wait;
       transform: none;
     }
+    .quick-job-cancel {
+      align-self: center;
+      height: 28px;
+      padding: 0 10px;
+      border: 1px solid #ffc36b40;
+      border-radius: 999px;
+      font-family: "JetBrains Mono", monospace;
+      font-size: 10px;
+      letter-spacing: 0.04em;
+      text-transform: uppercase;
+      color: #ffd59a;
+      background: #3a2a1455;
+      cursor: pointer;
+      transition: background 0.16s ease, transform 0.16s ease, border-color 0.16s ease;
+    }
+    .quick-job-cancel:hover {
+      background: #4d381970;
+      border-color: #ffc36b6b;
+      transform: translateY(-1px);
+    }
+    .quick-job-cancel:disabled {
+      opacity: 0.65;
+      cursor: wait;
+      transform: none;
+    }
+    .quick-job-run {
+      align-self: center;
+      height: 28px;
+      padding: 0 10px;
+      border: 1px solid #67f0b540;
+      border-radius: 999px;
+      font-family: "JetBrains Mono", monospace;
+      font-size: 10px;
+      letter-spacing: 0.04em;
+      text-transform: uppercase;
+      color: #8ff5c6;
+      background: #11342455;
+      cursor: pointer;
+      transition: background 0.16s ease, transform 0.16s ease, border-color 0.16s ease;
+    }
+    .quick-job-run:hover {
+      background: #17463070;
+      border-color: #67f0b56b;
+      transform: translateY(-1px);
+    }
+    .quick-job-run:disabled {
+      opacity: 0.65;
+      cursor: wait;
+      transform: none;
+    }
+    .quick-job-pause {
+      align-self: center;
+      height: 28px;
+      padding: 0 10px;
+      border: 1px solid #8fb8ff40;
+      border-radius: 999px;
+      font-family: "JetBrains Mono", monospace;
+      font-size: 10px;
+      letter-spacing: 0.04em;
+      text-transform: uppercase;
+      color: #b9d1ff;
+      background: #18264055;
+      cursor: pointer;
+      transition: background 0.16s ease, transform 0.16s ease, border-color 0.16s ease;
+    }
+    .quick-job-pause:hover {
+      background: #20345570;
+      border-color: #8fb8ff6b;
+      transform: translateY(-1px);
+    }
+    .quick-job-pause:disabled {
+      opacity: 0.65;
+      cursor: wait;
+      transform: none;
+    }
+    .quick-job-item.is-paused .quick-job-item-main {
+      opacity: 0.6;
+    }
     .quick-jobs-empty {
       padding: 8px 10px;
       border: 1px dashed #ffffff22;
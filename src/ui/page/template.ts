@@ -136,6 +136,7 @@ ${pageStyles}
         </div>
         <div class="main-tab-panel" id="tab-jobs">
           <div class="quick-job-sub">Scheduled runs · <span id="quick-jobs-next">Next job in --</span></div>
+          <div class="quick-jobs-rejected" id="quick-jobs-rejected"></div>
           <div class="quick-jobs-list quick-jobs-list-main" id="quick-jobs-list">
             <div class="quick-jobs-empty">Loading jobs...</div>
           </div>
@@ -161,17 +162,18 @@ ${pageStyles}
       <form class="quick-job quick-view-hidden" id="quick-job-form">
         <div class="quick-job-head">
           <div class="quick-job-title">Add Scheduled Job</div>
-          <div class="quick-job-sub">Recurring cron with prompt payload</div>
+          <div class="quick-job-sub">Daily, one-shot or repeating prompt</div>
         </div>
         <div class="quick-job-grid">
           <div class="quick-field quick-time-wrap">
             <div class="quick-label">Delay From Now (Minutes)</div>
             <div class="quick-input-wrap">
             <input class="quick-input" id="quick-job-offset" type="number" min="1" max="1440" step="1" placeholder="10" required />
-              <label class="quick-check quick-check-inline" for="quick-job-recurring">
-                <input id="quick-job-recurring" type="checkbox" checked />
-                <span>Recurring</span>
-              </label>
+              <select class="quick-kind" id="quick-job-kind" aria-label="Repeat">
+                <option value="daily">Daily</option>
+                <option value="once">Once</option>
+                <option value="every">Repeat</option>
+              </select>
             </div>
             <div class="quick-time-buttons">
               <button class="quick-add" type="button" data-add-minutes="15">+15m</button>
@@ -3,16 +3,68 @@ import { clampInt, json } from "./http";
 import type { StartWebUiOptions, WebServerHandle } from "./types";
 import { buildState, buildTechnicalInfo, sanitizeSettings } from "./services/state";
 import { readHeartbeatSettings, updateHeartbeatSettings } from "./services/settings";
-import { createQuickJob, deleteJob } from "./services/jobs";
+import { createQuickJob, deleteJob, type QuickJobInput } from "./services/jobs";
 import { readLogs } from "./services/logs";
 import { listSessions, rotateSession } from "../session-registry";
+import { formatSchedule, nextRuns } from "../schedule";
+import { getJobTimezone, isJobPaused, parsePauseUntil, pauseJob, resumeJob } from "../jobs";
 import { listTasks, createTask, updateTask, deleteTask } from "../tasks";
+import { cancelRun, listActiveRuns } from "../runner";
+import { onRunEvent } from "../run-events";
+import { parseStatusFilter, queryRuns } from "../run-history";
+import { renderJobPrompt, runJobNow, runJobNowReport } from "../job-runner";
+import { diagnoseJobs } from "../job-diagnostics";
+import { getUsageReport } from "../usage";
+import { getBudgetStatuses } from "../budgets";
+import { getSettingsTimezone } from "../config";
+
+/** Paginated run history: `?limit=50&offset=0&status=error,timed_out`. */
+async function runsResponse(url: URL, job?: string): Promise<Response> {
+  const statuses = parseStatusFilter(url.searchParams.get("status"));
+  if (!statuses) return json({ ok: false, error: "unknown status filter" });
+  const limit = clampInt(url.searchParams.get("limit"), 50, 1, 500);
+  const offset = clampInt(url.searchParams.get("offset"), 0, 0, Number.MAX_SAFE_INTEGER);
+  const { runs, total } = await queryRuns({ job, statuses, limit, offset });
+  return json({ ok: true, runs, total, limit, offset });
+}
+
+/** Server-sent events for every run event on the bus, until the client disconnects. */
+function runEventsResponse(req: Request): Response {
+  const encoder = new TextEncoder();
+  let stop = () => {};
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          stop();
+        }
+      };
+      const unsubscribe = onRunEvent((event) => send(`data: ${JSON.stringify(event)}\n\n`));
+      // Comment lines keep proxies from closing a quiet stream.
+      const keepAlive = setInterval(() => send(": keep-alive\n\n"), 15_000);
+      stop = () => {
+        unsubscribe();
+        clearInterval(keepAlive);
+      };
+      req.signal.addEventListener("abort", () => stop(), { once: true });
+      send(": connected\n\n");
+    },
+    cancel() {
+      stop();
+    },
+  });
+  return new Response(stream, {
+    headers: { "Content-Type": "text/event-stream", "Cache-Control": "no-cache", Connection: "keep-alive" },
+  });
+}
 
 export function startWebUi(opts: StartWebUiOptions): WebServerHandle {
   const server = Bun.serve({
     hostname: opts.host,
     port: opts.port,
-    fetch: async (req) => {
+    fetch: async (req, server) => {
       const url = new URL(req.url);
 
       if (url.pathname === "/" || url.pathname === "/index.html") {
@@ -116,7 +168,7 @@ export function startWebUi(opts: StartWebUiOptions): WebServerHandle {
       if (url.pathname === "/api/jobs/quick" && req.method === "POST") {
         try {
           const body = await req.json();
-          const result = await createQuickJob(body as { time?: unknown; prompt?: unknown });
+          const result = await createQuickJob(body as QuickJobInput);
           if (opts.onJobsChanged) await opts.onJobsChanged();
           return json({ ok: true, ...result });
         } catch (err) {
@@ -124,6 +176,84 @@ export function startWebUi(opts: StartWebUiOptions): WebServerHandle {
         }
       }
 
+      // Validation report for every job file, read fresh from disk.
+      if (url.pathname === "/api/jobs/diagnostics" && req.method === "GET") {
+        return json({ ok: true, ...(await diagnoseJobs(opts.getSnapshot().settings)) });
+      }
+
+      if (url.pathname.startsWith("/api/jobs/") && url.pathname.endsWith("/upcoming") && req.method === "GET") {
+        const name = decodeURIComponent(url.pathname.slice("/api/jobs/".length, -"/upcoming".length));
+        const snapshot = opts.getSnapshot();
+        const job = snapshot.jobs.find((j) => j.name === name);
+        if (!job) return json({ ok: false, error: "not found" });
+        const count = clampInt(url.searchParams.get("count"), 5, 1, 50);
+        const upcoming = nextRuns(job, new Date(), count, getJobTimezone(job, snapshot.settings));
+        return json({ ok: true, name: job.name, schedule: formatSchedule(job), upcoming: upcoming.map((d) => d.getTime()) });
+      }
+
+      if (url.pathname.startsWith("/api/jobs/") && url.pathname.endsWith("/preview") && req.method === "GET") {
+        const name = decodeURIComponent(url.pathname.slice("/api/jobs/".length, -"/preview".length));
+        const job = opts.getSnapshot().jobs.find((j) => j.name === name);
+        if (!job) return json({ ok: false, error: "not found" });
+        if (job.type === "maintenance") return json({ ok: false, error: "maintenance jobs have no prompt" });
+        try {
+          // The precheck isn't run for a preview; show where its output would go.
+          const whenOutput = job.when ? `[output of when: ${job.when}]` : undefined;
+          return json({ ok: true, name: job.name, prompt: await renderJobPrompt(job, { whenOutput }) });
+        } catch (err) {
+          return json({ ok: false, error: err instanceof Error ? err.message : String(err) });
+        }
+      }
+
+      if (url.pathname.startsWith("/api/jobs/") && url.pathname.endsWith("/run") && req.method === "POST") {
+        const name = decodeURIComponent(url.pathname.slice("/api/jobs/".length, -"/run".length));
+        const job = opts.getSnapshot().jobs.find((j) => j.name === name);
+        if (!job) return json({ ok: false, error: "not found" });
+        // `?wait=1` answers with the result once the run is done.
+        if (url.searchParams.get("wait") === "1") {
+          server.timeout(req, 0);
+          return json({ ok: true, ...(await runJobNowReport(job)) });
+        }
+        // Runs can take minutes; the outcome lands in the job's run history.
+        runJobNow(job).catch((err) => console.error(`[${new Date().toLocaleTimeString()}] Run now of ${name} failed:`, err));
+        return json({ ok: true, started: true });
+      }
+
+      if (url.pathname.startsWith("/api/jobs/") && url.pathname.endsWith("/pause") && req.method === "POST") {
+        const name = decodeURIComponent(url.pathname.slice("/api/jobs/".length, -"/pause".length));
+        const snapshot = opts.getSnapshot();
+        const job = snapshot.jobs.find((j) => j.name === name);
+        if (!job) return json({ ok: false, error: "not found" });
+        try {
+          const body = (await req.json().catch(() => ({}))) as { until?: unknown };
+          const rawUntil = typeof body.until === "string" ? body.until.trim() : "";
+          const until = rawUntil ? parsePauseUntil(rawUntil, getJobTimezone(job, snapshot.settings)) : undefined;
+          if (until === null) return json({ ok: false, error: "until must be a future date/time or a duration like 2h" });
+          await pauseJob(name, until);
+          if (opts.onJobsChanged) await opts.onJobsChanged();
+          return json({ ok: true });
+        } catch (err) {
+          return json({ ok: false, error: String(err) });
+        }
+      }
+
+      if (url.pathname.startsWith("/api/jobs/") && url.pathname.endsWith("/resume") && req.method === "POST") {
+        const name = decodeURIComponent(url.pathname.slice("/api/jobs/".length, -"/resume".length));
+        if (!opts.getSnapshot().jobs.some((j) => j.name === name)) return json({ ok: false, error: "not found" });
+        try {
+          await resumeJob(name);
+          if (opts.onJobsChanged) await opts.onJobsChanged();
+          return json({ ok: true });
+        } catch (err) {
+          return json({ ok: false, error: String(err) });
+        }
+      }
+
+      if (url.pathname.startsWith("/api/jobs/") && url.pathname.endsWith("/runs") && req.method === "GET") {
+        const name = decodeURIComponent(url.pathname.slice("/api/jobs/".length, -"/runs".length));
+        return runsResponse(url, name);
+      }
+
       if (url.pathname.startsWith("/api/jobs/") && req.method === "DELETE") {
         try {
           const encodedName = url.pathname.slice("/api/jobs/".length);
@@ -137,14 +267,46 @@ export function startWebUi(opts: StartWebUiOptions): WebServerHandle {
       }
 
       if (url.pathname === "/api/jobs") {
-        const jobs = opts.getSnapshot().jobs.map((j) => ({
+        const snapshot = opts.getSnapshot();
+        const jobs = snapshot.jobs.map((j) => ({
           name: j.name,
-          schedule: j.schedule,
+          schedule: formatSchedule(j),
+          kind: j.schedule.kind,
+          paused: isJobPaused(j, getJobTimezone(j, snapshot.settings)),
           promptPreview: j.prompt.slice(0, 160),
         }));
         return json({ jobs });
       }
 
+      if (url.pathname === "/api/runs" && req.method === "GET") {
+        return runsResponse(url, url.searchParams.get("job") || undefined);
+      }
+
+      // Live events of in-flight runs: start, text, tool_use, result, end
+      if (url.pathname === "/api/runs/events" && req.method === "GET") {
+        server.timeout(req, 0);
+        return runEventsResponse(req);
+      }
+
+      // Tokens and cost of the last `days` local days, per job, session group and day
+      if (url.pathname === "/api/usage" && req.method === "GET") {
+        const days = clampInt(url.searchParams.get("days"), 30, 1, 366);
+        const settings = opts.getSnapshot().settings;
+        const budgets = (await getBudgetStatuses(settings)).map(({ budget, ...status }) => ({ ...budget, ...status }));
+        return json({ ok: true, days, ...(await getUsageReport(days, getSettingsTimezone(settings))), budgets });
+      }
+
+      // In-flight Claude runs
+      if (url.pathname === "/api/runs/active" && req.method === "GET") {
+        return json({ runs: listActiveRuns() });
+      }
+
+      if (url.pathname.startsWith("/api/runs/") && url.pathname.endsWith("/cancel") && req.method === "POST") {
+        const id = decodeURIComponent(url.pathname.slice("/api/runs/".length, -"/cancel".length));
+        const cancelled = cancelRun(id);
+        return json({ ok: cancelled, ...(cancelled ? {} : { error: "not running" }) });
+      }
+
       // Session registry endpoints
       if (url.pathname === "/api/sessions") {
         try {
@@ -3,22 +3,36 @@ import { join } from "path";
 import { JOBS_DIR } from "../constants";
 
 export interface QuickJobInput {
+  /** `daily` (cron at `time`), `once` (`at` date + time) or `every` (`everyMinutes`, starting at date + time). */
+  kind?: unknown;
   time?: unknown;
+  date?: unknown;
+  everyMinutes?: unknown;
   prompt?: unknown;
   recurring?: unknown;
   daily?: unknown;
 }
 
 export async function createQuickJob(input: QuickJobInput): Promise<{ name: string; schedule: string; recurring: boolean }> {
+  const kind = typeof input.kind === "string" ? input.kind : "";
   const time = typeof input.time === "string" ? input.time.trim() : "";
+  const date = typeof input.date === "string" ? input.date.trim() : "";
   const prompt = typeof input.prompt === "string" ? input.prompt.trim() : "";
-  const recurring = input.recurring == null
-    ? (input.daily == null ? true : Boolean(input.daily))
-    : Boolean(input.recurring);
+  const recurring = kind
+    ? kind !== "once"
+    : input.recurring == null
+      ? (input.daily == null ? true : Boolean(input.daily))
+      : Boolean(input.recurring);
 
+  if (kind && kind !== "daily" && kind !== "once" && kind !== "every") {
+    throw new Error("Invalid kind. Use daily, once or every.");
+  }
   if (!/^\d{2}:\d{2}$/.test(time)) {
     throw new Error("Invalid time. Use HH:MM.");
   }
+  if ((kind === "once" || kind === "every") && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    throw new Error("Invalid date. Use YYYY-MM-DD.");
+  }
   if (!prompt) {
     throw new Error("Prompt is required.");
   }
@@ -32,11 +46,27 @@ export async function createQuickJob(input: QuickJobInput): Promise<{ name: stri
     throw new Error("Time out of range.");
   }
 
-  const schedule = `${minute} ${hour} * * *`;
+  let scheduleLines: string[];
+  let schedule: string;
+  if (kind === "once") {
+    schedule = `at ${date}T${time}`;
+    scheduleLines = [`at: ${date}T${time}`];
+  } else if (kind === "every") {
+    const everyMinutes = Number(input.everyMinutes);
+    if (!Number.isInteger(everyMinutes) || everyMinutes < 1 || everyMinutes > 1440) {
+      throw new Error("Invalid interval. Use 1-1440 minutes.");
+    }
+    schedule = `every ${everyMinutes}m`;
+    scheduleLines = [`every: ${everyMinutes}m`, `start: ${date}T${time}`];
+  } else {
+    schedule = `${minute} ${hour} * * *`;
+    scheduleLines = [`schedule: "${schedule}"`, `recurring: ${recurring ? "true" : "false"}`];
+  }
+
   const stamp = new Date().toISOString().replace(/[-:TZ.]/g, "").slice(0, 14);
   const name = `quick-${stamp}-${hour.toString().padStart(2, "0")}${minute.toString().padStart(2, "0")}`;
   const path = join(JOBS_DIR, `${name}.md`);
-  const content = `---\nschedule: "${schedule}"\nrecurring: ${recurring ? "true" : "false"}\n---\n${prompt}\n`;
+  const content = `---\n${scheduleLines.join("\n")}\n---\n${prompt}\n`;
 
   await mkdir(JOBS_DIR, { recursive: true });
   await writeFile(path, content, "utf-8");
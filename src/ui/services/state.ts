@@ -1,13 +1,24 @@
 import { readFile } from "fs/promises";
+import { getSettingsTimezone, type NamedHeartbeatConfig } from "../../config";
+import { heartbeatRunName } from "../../heartbeat";
+import { formatLocalDateTimeValue, formatSchedule, nextRuns } from "../../schedule";
+import { getJobTimezone, isJobPaused } from "../../jobs";
+import { resolveOffsetMinutesAt } from "../../timezone";
 import { peekSession } from "../../sessions";
+import { listActiveRuns } from "../../runner";
+import { countSuppressedRuns } from "../../run-history";
 import { SESSION_FILE, SETTINGS_FILE, STATE_FILE } from "../constants";
 import type { WebSnapshot } from "../types";
 
+const UPCOMING_PREVIEW_COUNT = 3;
+const DAY_MS = 86_400_000;
+
 export function sanitizeSettings(snapshot: WebSnapshot["settings"]) {
   return {
     timezone: snapshot.timezone,
-    timezoneOffsetMinutes: snapshot.timezoneOffsetMinutes,
+    timezoneOffsetMinutes: resolveOffsetMinutesAt(getSettingsTimezone(snapshot), new Date()),
     heartbeat: snapshot.heartbeat,
+    heartbeats: snapshot.heartbeats,
     security: snapshot.security,
     telegram: {
       configured: Boolean(snapshot.telegram.token),
@@ -17,6 +28,20 @@ export function sanitizeSettings(snapshot: WebSnapshot["settings"]) {
   };
 }
 
+async function describeHeartbeat(snapshot: WebSnapshot, hb: NamedHeartbeatConfig, now: number) {
+  const nextAt = snapshot.heartbeatNextAt[hb.name] ?? null;
+  return {
+    name: hb.name,
+    enabled: hb.enabled,
+    intervalMinutes: hb.interval,
+    sessionGroup: hb.sessionGroup ?? "default",
+    model: hb.model ?? null,
+    nextAt,
+    nextInMs: nextAt ? Math.max(0, nextAt - now) : null,
+    last24h: await countSuppressedRuns(heartbeatRunName(hb.name), now - DAY_MS),
+  };
+}
+
 export async function buildState(snapshot: WebSnapshot) {
   const now = Date.now();
   const session = await peekSession();
@@ -27,17 +52,27 @@ export async function buildState(snapshot: WebSnapshot) {
       startedAt: snapshot.startedAt,
       uptimeMs: now - snapshot.startedAt,
     },
-    heartbeat: {
-      enabled: snapshot.settings.heartbeat.enabled,
-      intervalMinutes: snapshot.settings.heartbeat.interval,
-      nextAt: snapshot.heartbeatNextAt || null,
-      nextInMs: snapshot.heartbeatNextAt ? Math.max(0, snapshot.heartbeatNextAt - now) : null,
-    },
-    jobs: snapshot.jobs.map((j) => ({
-      name: j.name,
-      schedule: j.schedule,
-      prompt: j.prompt,
-    })),
+    heartbeat: await describeHeartbeat(snapshot, { ...snapshot.settings.heartbeat, name: "heartbeat", notify: "telegram" }, now),
+    heartbeats: await Promise.all(snapshot.settings.heartbeats.map((hb) => describeHeartbeat(snapshot, hb, now))),
+    activeRuns: listActiveRuns(),
+    jobs: snapshot.jobs.map((j) => {
+      const timezone = getJobTimezone(j, snapshot.settings);
+      const upcoming = nextRuns(j, new Date(now), UPCOMING_PREVIEW_COUNT, timezone).map((d) => d.getTime());
+      return {
+        name: j.name,
+        schedule: formatSchedule(j),
+        kind: j.schedule.kind,
+        timezone: j.timezone ?? null,
+        paused: isJobPaused(j, timezone, now),
+        pausedUntil: j.pausedUntil ? formatLocalDateTimeValue(j.pausedUntil) : null,
+        prompt: j.prompt,
+        nextAt: upcoming[0] ?? null,
+        upcoming,
+      };
+    }),
+    rejectedJobs: snapshot.jobFiles
+      .filter((f) => f.status === "rejected")
+      .map((f) => ({ name: f.name, file: f.file, error: f.error ?? "" })),
     security: snapshot.settings.security,
     telegram: {
       configured: Boolean(snapshot.settings.telegram.token),
@@ -1,12 +1,15 @@
 import type { Settings } from "../config";
-import type { Job } from "../jobs";
+import type { Job, JobFileReport } from "../jobs";
 
 export interface WebSnapshot {
   pid: number;
   startedAt: number;
-  heartbeatNextAt: number;
+  /** Next run of each scheduled heartbeat, by name ("heartbeat" for the main one). */
+  heartbeatNextAt: Record<string, number>;
   settings: Settings;
   jobs: Job[];
+  /** Per-file results of the daemon's last job load. */
+  jobFiles: JobFileReport[];
 }
 
 export interface WebServerHandle {
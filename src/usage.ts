@@ -0,0 +1,105 @@
+import { listRunsSince, type RunRecord, type RunUsage } from "./run-history";
+import { resolveOffsetMinutesAt, shiftDateToOffset, type TimezoneSpec } from "./timezone";
+
+export interface UsageTotals extends RunUsage {
+  /** Runs with usage data; runs that never reached Claude aren't counted. */
+  runs: number;
+}
+
+export interface UsageReport {
+  since: number;
+  total: UsageTotals;
+  byJob: Record<string, UsageTotals>;
+  byGroup: Record<string, UsageTotals>;
+  /** By local date (`YYYY-MM-DD` in the settings timezone), oldest first. */
+  byDay: Record<string, UsageTotals>;
+}
+
+const DAY_MS = 86_400_000;
+
+function emptyTotals(): UsageTotals {
+  return { runs: 0, inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheCreationTokens: 0, costUsd: 0, numTurns: 0, durationMs: 0 };
+}
+
+/** Usage of two Claude processes of one run (a rate-limited attempt and its fallback). */
+export function sumUsage(a: RunUsage | null, b: RunUsage | null): RunUsage | null {
+  if (!a || !b) return a ?? b;
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    cacheReadTokens: a.cacheReadTokens + b.cacheReadTokens,
+    cacheCreationTokens: a.cacheCreationTokens + b.cacheCreationTokens,
+    costUsd: a.costUsd + b.costUsd,
+    numTurns: a.numTurns + b.numTurns,
+    durationMs: a.durationMs + b.durationMs,
+  };
+}
+
+function addTo(totals: UsageTotals, usage: RunUsage) {
+  totals.runs++;
+  totals.inputTokens += usage.inputTokens;
+  totals.outputTokens += usage.outputTokens;
+  totals.cacheReadTokens += usage.cacheReadTokens;
+  totals.cacheCreationTokens += usage.cacheCreationTokens;
+  totals.costUsd += usage.costUsd;
+  totals.numTurns += usage.numTurns;
+  totals.durationMs += usage.durationMs;
+}
+
+function localDate(ms: number, timezone: TimezoneSpec): string {
+  const at = new Date(ms);
+  return shiftDateToOffset(at, resolveOffsetMinutesAt(timezone, at)).toISOString().slice(0, 10);
+}
+
+/** Start of the local day `days - 1` days before today, so `days: 1` means today. */
+export function startOfDaysAgo(days: number, timezone: TimezoneSpec, now = Date.now()): number {
+  const offsetMs = resolveOffsetMinutesAt(timezone, new Date(now)) * 60_000;
+  const localMidnight = Math.floor((now + offsetMs) / DAY_MS) * DAY_MS - offsetMs;
+  return localMidnight - (Math.max(1, days) - 1) * DAY_MS;
+}
+
+/** Totals of the given runs, overall and per job, session group and local day. */
+export function aggregateUsage(records: RunRecord[], since: number, timezone: TimezoneSpec): UsageReport {
+  const report: UsageReport = { since, total: emptyTotals(), byJob: {}, byGroup: {}, byDay: {} };
+  for (const record of records) {
+    if (!record.usage || record.startedAt < since) continue;
+    const day = localDate(record.startedAt, timezone);
+    addTo(report.total, record.usage);
+    addTo((report.byJob[record.job] ??= emptyTotals()), record.usage);
+    addTo((report.byGroup[record.group] ??= emptyTotals()), record.usage);
+    addTo((report.byDay[day] ??= emptyTotals()), record.usage);
+  }
+  return report;
+}
+
+/** Usage over the last `days` local days (today included), read from run history. */
+export async function getUsageReport(days: number, timezone: TimezoneSpec): Promise<UsageReport> {
+  const since = startOfDaysAgo(days, timezone);
+  return aggregateUsage(await listRunsSince(since), since, timezone);
+}
+
+export function formatCost(usd: number): string {
+  return `$${usd.toFixed(usd > 0 && usd < 0.01 ? 4 : 2)}`;
+}
+
+export function formatTokens(count: number): string {
+  if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`;
+  if (count >= 1_000) return `${(count / 1_000).toFixed(1)}k`;
+  return String(count);
+}
+
+function formatTokenCounts(usage: RunUsage): string {
+  const cached = usage.cacheReadTokens + usage.cacheCreationTokens;
+  return `${formatTokens(usage.inputTokens)} in / ${formatTokens(usage.outputTokens)} out` +
+    (cached > 0 ? ` (${formatTokens(cached)} cached)` : "");
+}
+
+/** `$0.0123, 1.2k in / 345 out (20.0k cached), 3 turns`, for a run log. */
+export function formatUsage(usage: RunUsage): string {
+  return `${formatCost(usage.costUsd)}, ${formatTokenCounts(usage)}, ${usage.numTurns} turn${usage.numTurns === 1 ? "" : "s"}`;
+}
+
+/** `$1.23, 12 runs, 45.6k in / 7.8k out (120.0k cached)`. */
+export function formatUsageTotals(totals: UsageTotals): string {
+  return `${formatCost(totals.costUsd)}, ${totals.runs} run${totals.runs === 1 ? "" : "s"}, ${formatTokenCounts(totals)}`;
+}